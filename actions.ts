@@ -0,0 +1,107 @@
+// User-defined section actions: a name, an icon, the heading levels they apply to and a transform.
+// Transforms that rewrite the section only touch its body; the heading stays as it is.
+
+export type ActionTransform = "callout" | "blockquote" | "sort-list" | "regex" | "append-note" | "append-daily";
+
+export const ACTION_TRANSFORM_LABELS: Record<ActionTransform, string> = {
+    "callout": "Wrap in callout",
+    "blockquote": "Turn into blockquote",
+    "sort-list": "Sort list items",
+    "regex": "Regex replace",
+    "append-note": "Append to note",
+    "append-daily": "Append to daily note"
+};
+
+export interface CustomAction {
+    id: string;
+    name: string;
+    icon: string;
+    levels: number[]; // Heading levels the action is offered for, empty for all
+    transform: ActionTransform;
+    calloutType: string;
+    calloutTitle: string; // "{{heading}}" is replaced by the section's heading
+    sortDescending: boolean;
+    pattern: string;
+    replacement: string;
+    flags: string;
+    targetNote: string;
+}
+
+export function createCustomAction(name: string): CustomAction {
+    return {
+        id: Date.now().toString(36),
+        name,
+        icon: "wand",
+        levels: [],
+        transform: "callout",
+        calloutType: "note",
+        calloutTitle: "",
+        sortDescending: false,
+        pattern: "",
+        replacement: "",
+        flags: "g",
+        targetNote: ""
+    };
+}
+
+export function actionAppliesTo(action: CustomAction, level: number): boolean {
+    return action.levels.length === 0 || action.levels.includes(level);
+}
+
+// True for transforms that change the section in place rather than copying it elsewhere
+export function rewritesSection(action: CustomAction): boolean {
+    return action.transform !== "append-note" && action.transform !== "append-daily";
+}
+
+function quoteLines(lines: string[]): string[] {
+    return lines.map(line => line.length > 0 ? `> ${line}` : ">");
+}
+
+export function wrapInCallout(body: string, type: string, title: string): string {
+    const header = `> [!${type.trim() || "note"}]${title.trim() ? ` ${title.trim()}` : ""}`;
+    return [header, ...quoteLines(body.split("\n"))].join("\n");
+}
+
+export function toBlockquote(body: string): string {
+    return quoteLines(body.split("\n")).join("\n");
+}
+
+const LIST_ITEM = /^([-*+]|\d{1,9}[.)])[ \t]+(?:\[.\][ \t]+)?(.*)$/;
+
+// Sorts every run of top-level list items; nested lines move along with their item
+export function sortListItems(body: string, descending: boolean): string {
+    const lines = body.split("\n");
+    const result: string[] = [];
+    let items: string[][] = [];
+
+    const flush = () => {
+        const key = (item: string[]) => (item[0].match(LIST_ITEM)?.[2] ?? item[0]).toLowerCase();
+        items.sort((a, b) => key(a).localeCompare(key(b), undefined, { numeric: true }) * (descending ? -1 : 1));
+        // Ordered lists keep counting up from where they started
+        const numbers = items.map(item => item[0].match(/^(\d{1,9})([.)])/));
+        if (numbers.every(number => number !== null)) {
+            const start = Math.min(...numbers.map(number => parseInt(number[1], 10)));
+            items.forEach((item, i) => item[0] = item[0].replace(/^\d{1,9}/, String(start + i)));
+        }
+        items.forEach(item => result.push(...item));
+        items = [];
+    };
+
+    for (const line of lines) {
+        if (LIST_ITEM.test(line)) {
+            items.push([line]);
+        } else if (items.length > 0 && /^[ \t]+\S/.test(line)) {
+            items[items.length - 1].push(line);
+        } else {
+            flush();
+            result.push(line);
+        }
+    }
+    flush();
+    return result.join("\n");
+}
+
+// Throws when the pattern is not a valid regular expression
+export function regexReplace(body: string, pattern: string, replacement: string, flags: string): string {
+    return body.replace(new RegExp(pattern, flags), replacement.replace(/\\n/g, "\n").replace(/\\t/g, "\t"));
+}
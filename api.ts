@@ -0,0 +1,92 @@
+// Implementation of the public API exposed as plugin.api; the types live in sectcy.d.ts.
+
+import { TFile } from 'obsidian';
+import type SelectSectionPlugin from './main';
+import { buildSectionIndex, findSectionByPath, linesOf, SectionRange } from './sections';
+import type { SectcyApi, SectcyHeadingPath, SectcyMergeOptions, SectcySection, SectcySectionOptions } from './sectcy';
+
+function pathOf(sections: SectionRange[], index: number): string[] {
+    const path: string[] = [];
+    for (let i = index; i !== -1; i = sections[i].parent) {
+        path.unshift(sections[i].title);
+    }
+    return path;
+}
+
+function toPublic(sections: SectionRange[], index: number): SectcySection {
+    const section = sections[index];
+    return {
+        heading: section.title,
+        level: section.level,
+        path: pathOf(sections, index),
+        headingLine: section.headingLine,
+        bodyStart: section.bodyStart,
+        end: section.end
+    };
+}
+
+function findByPath(sections: SectionRange[], headingPath: SectcyHeadingPath): number {
+    return findSectionByPath(sections, typeof headingPath === "string" ? headingPath.split("#") : headingPath);
+}
+
+export class SectionApi implements SectcyApi {
+    plugin: SelectSectionPlugin;
+
+    constructor(plugin: SelectSectionPlugin) {
+        this.plugin = plugin;
+    }
+
+    async getSections(file: TFile): Promise<SectcySection[]> {
+        const sections = buildSectionIndex(linesOf(await this.plugin.app.vault.read(file)));
+        return sections.map((_, index) => toPublic(sections, index));
+    }
+
+    async getSection(file: TFile, headingPath: SectcyHeadingPath): Promise<SectcySection | null> {
+        const sections = buildSectionIndex(linesOf(await this.plugin.app.vault.read(file)));
+        const index = findByPath(sections, headingPath);
+        return index === -1 ? null : toPublic(sections, index);
+    }
+
+    async readSection(file: TFile, headingPath: SectcyHeadingPath, options: SectcySectionOptions = {}): Promise<string | null> {
+        const lines = (await this.plugin.app.vault.read(file)).split("\n");
+        const sections = buildSectionIndex(linesOf(lines.join("\n")));
+        const index = findByPath(sections, headingPath);
+        if (index === -1) return null;
+
+        const section = sections[index];
+        const start = options.includeHeading === false ? section.bodyStart : section.headingLine;
+        return lines.slice(start, section.end + 1).join("\n");
+    }
+
+    async replaceSection(file: TFile, headingPath: SectcyHeadingPath, content: string, options: SectcySectionOptions = {}): Promise<boolean> {
+        let found = false;
+        // Looked up inside process() so the edit applies to the note as it is at that moment
+        await this.plugin.app.vault.process(file, (data) => {
+            const lines = data.split("\n");
+            const sections = buildSectionIndex(linesOf(data));
+            const index = findByPath(sections, headingPath);
+            if (index === -1) return data;
+
+            found = true;
+            const section = sections[index];
+            const start = options.includeHeading === false ? section.bodyStart : section.headingLine;
+            lines.splice(start, section.end + 1 - start, ...content.split("\n"));
+            return lines.join("\n");
+        });
+        return found;
+    }
+
+    async mergeFiles(files: TFile[], options: SectcyMergeOptions = {}): Promise<TFile | null> {
+        if (files.length === 0) return null;
+        const settings = this.plugin.settings;
+        return this.plugin.performMerge(files, {
+            outputFolder: options.outputFolder,
+            outputName: options.outputName,
+            overwrite: options.overwrite,
+            live: options.live,
+            format: Object.assign({}, settings.mergeFormat, options.format),
+            postMerge: options.afterMerge ? Object.assign({}, settings.postMerge, { action: options.afterMerge }) : undefined,
+            byHeading: options.byHeading
+        });
+    }
+}
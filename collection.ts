@@ -0,0 +1,153 @@
+// Section collection: a basket of sections gathered from any number of notes,
+// shown in a sidebar view and kept across restarts in the plugin data.
+
+import { ItemView, normalizePath, setIcon, Setting, TFile, WorkspaceLeaf } from 'obsidian';
+import { linkableHeading } from './links';
+import type SelectSectionPlugin from './main';
+
+export const VIEW_TYPE_COLLECTION = "sectcy-collection";
+
+export interface CollectionItem {
+    id: string;
+    sourcePath: string;
+    heading: string;
+    subpath?: string; // Link subpath of the section, e.g. "#Week 2#Notes"; missing on older items
+    content: string;
+    addedAt: number;
+}
+
+function linkSubpath(item: CollectionItem): string {
+    return item.subpath ?? `#${linkableHeading(item.heading)}`;
+}
+
+export class CollectionView extends ItemView {
+    plugin: SelectSectionPlugin;
+    dragStartIndex: number | null = null;
+
+    constructor(leaf: WorkspaceLeaf, plugin: SelectSectionPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_COLLECTION;
+    }
+
+    getDisplayText(): string {
+        return "Section collection";
+    }
+
+    getIcon(): string {
+        return "list-plus";
+    }
+
+    async onOpen() {
+        this.render();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    render() {
+        const { contentEl } = this;
+        const items = this.plugin.settings.collection;
+        contentEl.empty();
+        contentEl.addClass("sectcy-collection");
+
+        const toolbar = contentEl.createDiv({ cls: "sectcy-collection-toolbar" });
+        const addToolbarButton = (icon: string, label: string, onClick: () => void) => {
+            const btn = toolbar.createEl("button", { cls: "clickable-icon" });
+            setIcon(btn, icon);
+            btn.ariaLabel = label;
+            btn.disabled = items.length === 0;
+            btn.onclick = onClick;
+        };
+        addToolbarButton("copy", "Copy all", () => this.plugin.copyCollection());
+        addToolbarButton("file-plus", "Create note from collection", () => this.plugin.createNoteFromCollection());
+        addToolbarButton("trash-2", "Clear collection", () => this.plugin.updateCollection([]));
+
+        new Setting(contentEl)
+            .setName("Link back to sources")
+            .setDesc("Add a link to the original heading below each section.")
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.collectionSourceLinks)
+                .onChange(async (value) => {
+                    this.plugin.settings.collectionSourceLinks = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        if (items.length === 0) {
+            contentEl.createDiv({
+                cls: "sectcy-collection-empty",
+                text: "No sections collected yet. Use the \"Add to Collection\" button next to a header."
+            });
+            return;
+        }
+
+        const list = contentEl.createDiv({ cls: "sectcy-collection-list" });
+        items.forEach((item, index) => {
+            const row = list.createDiv({ cls: "sectcy-collection-item" });
+            row.draggable = true;
+
+            row.ondragstart = (e) => {
+                this.dragStartIndex = index;
+                e.dataTransfer?.setData("text/plain", index.toString());
+                row.addClass("is-dragging");
+            };
+            row.ondragover = (e) => {
+                e.preventDefault(); // Allow dropping
+                row.addClass("is-drop-target");
+            };
+            row.ondragleave = () => {
+                row.removeClass("is-drop-target");
+            };
+            row.ondrop = async (e) => {
+                e.preventDefault();
+                const dragIndex = this.dragStartIndex;
+                this.dragStartIndex = null;
+                if (dragIndex === null || dragIndex === index) {
+                    row.removeClass("is-drop-target");
+                    return;
+                }
+                const reordered = [...items];
+                const moved = reordered.splice(dragIndex, 1)[0];
+                reordered.splice(index, 0, moved);
+                await this.plugin.updateCollection(reordered);
+            };
+            row.ondragend = () => {
+                row.removeClass("is-dragging");
+                this.dragStartIndex = null;
+            };
+
+            const handle = row.createSpan({ cls: "sectcy-collection-handle" });
+            setIcon(handle, "grip-vertical");
+
+            const text = row.createDiv({ cls: "sectcy-collection-text" });
+            text.createDiv({ cls: "sectcy-collection-heading", text: item.heading });
+            const source = text.createDiv({ cls: "sectcy-collection-source", text: item.sourcePath.replace(/\.md$/, "") });
+            source.onclick = () => {
+                this.app.workspace.openLinkText(`${item.sourcePath}${linkSubpath(item)}`, "", false);
+            };
+
+            const remove = row.createSpan({ cls: "clickable-icon sectcy-collection-remove" });
+            setIcon(remove, "x");
+            remove.ariaLabel = "Remove from collection";
+            remove.onclick = async () => {
+                await this.plugin.updateCollection(items.filter(other => other.id !== item.id));
+            };
+        });
+    }
+}
+
+// Collected sections joined into one document, linking from sourcePath back to each original heading
+export function composeCollection(plugin: SelectSectionPlugin, items: CollectionItem[], sourcePath: string, withLinks: boolean): string {
+    return items.map(item => {
+        if (!withLinks) return item.content;
+        const file = plugin.app.vault.getAbstractFileByPath(normalizePath(item.sourcePath));
+        const link = file instanceof TFile
+            ? plugin.app.fileManager.generateMarkdownLink(file, sourcePath, linkSubpath(item))
+            : item.sourcePath;
+        return `${item.content}\n\nSource: ${link}`;
+    }).join("\n\n");
+}
@@ -0,0 +1,51 @@
+// Context header for sections copied "with context": the note title, chosen frontmatter fields
+// and the trail of parent headings, filled into a template from the settings.
+
+import { shiftAllHeadings } from './restructure';
+import { buildSectionIndex, linesOf } from './sections';
+
+export interface SectionContext {
+    note: string;
+    path: string;
+    heading: string;
+    breadcrumbs: string[]; // Parent headings, then the section's own heading
+    properties: [string, string][];
+}
+
+export const DEFAULT_CONTEXT_TEMPLATE = "Note: {{note}}\n{{properties}}\nSection: {{breadcrumbs}}";
+
+const PLACEHOLDER = /{{(note|path|heading|breadcrumbs|properties)}}/g;
+
+export function formatPropertyValue(value: unknown): string {
+    if (Array.isArray(value)) return value.map(formatPropertyValue).join(", ");
+    if (value !== null && typeof value === "object") return JSON.stringify(value);
+    return String(value ?? "");
+}
+
+// Lines that only held placeholders with nothing to fill in, such as {{properties}}
+// for a note without frontmatter, are left out
+export function renderContextHeader(template: string, context: SectionContext): string {
+    const values: Record<string, string> = {
+        note: context.note,
+        path: context.path,
+        heading: context.heading,
+        breadcrumbs: context.breadcrumbs.join(" > "),
+        properties: context.properties.map(([key, value]) => `${key}: ${value}`).join("\n")
+    };
+    const lines: string[] = [];
+    for (const line of template.split("\n")) {
+        const filled = line.replace(PLACEHOLDER, (_match, name: string) => values[name]);
+        if (filled !== line && filled.trim().length === 0) continue;
+        lines.push(filled);
+    }
+    return lines.join("\n").trim();
+}
+
+// Shifts every heading in the text so the highest one ends up at the given level
+export function relevelToTop(text: string, level: number): string {
+    const source = linesOf(text);
+    const sections = buildSectionIndex(source);
+    if (sections.length === 0) return text;
+    const delta = level - Math.min(...sections.map(section => section.level));
+    return delta === 0 ? text : shiftAllHeadings(source, sections, delta);
+}
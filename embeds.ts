@@ -0,0 +1,186 @@
+// Expanding embeds (![[Note]], ![[Note#Heading]], ![[Note#^block]]) into the text they show,
+// so copied sections and merged notes still make sense outside the vault.
+
+import { App, arrayBufferToBase64, TFile } from 'obsidian';
+import { rewriteLinks } from './links';
+import { splitFrontmatter } from './merge';
+import { buildSectionIndex, findSectionByPath, linesOf } from './sections';
+
+export type AttachmentMode = "keep" | "path" | "data";
+
+export interface EmbedOptions {
+    maxDepth: number; // Embeds nested deeper than this stay links
+    attachments: AttachmentMode;
+    hostPath: string; // Note the expanded text ends up in; links and relative paths are written for it
+}
+
+const EMBED = /!\[\[([^\]|]*?)(\|[^\]]*)?\]\]|!\[([^\]]*)\]\(([^)\s]+)\)/g;
+const FENCE = /^\s*(```|~~~)/;
+
+const MIME_TYPES: Record<string, string> = {
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    webp: "image/webp",
+    svg: "image/svg+xml",
+    bmp: "image/bmp",
+    avif: "image/avif",
+    pdf: "application/pdf",
+    mp3: "audio/mpeg",
+    wav: "audio/wav",
+    mp4: "video/mp4",
+    webm: "video/webm"
+};
+
+function isImage(file: TFile): boolean {
+    return (MIME_TYPES[file.extension.toLowerCase()] ?? "").startsWith("image/");
+}
+
+// Path from the folder of one vault file to another, e.g. "../assets/chart.png"
+export function relativePath(fromFile: string, toFile: string): string {
+    const from = fromFile.split("/").slice(0, -1);
+    const to = toFile.split("/");
+    let common = 0;
+    while (common < from.length && common < to.length - 1 && from[common] === to[common]) common++;
+    return [...from.slice(common).map(() => ".."), ...to.slice(common)].join("/");
+}
+
+// Lines of the block with the given id: a paragraph or list item ending in " ^id",
+// or the block right above a line holding only "^id"
+function blockLines(lines: string[], id: string): string[] | null {
+    const marker = new RegExp(`(^|\\s)\\^${id.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s*$`);
+    const index = lines.findIndex(line => marker.test(line));
+    if (index === -1) return null;
+
+    let end = index;
+    if (lines[index].trim() === `^${id}`) {
+        end = index - 1;
+        while (end >= 0 && lines[end].trim().length === 0) end--;
+        if (end < 0) return null;
+    }
+    let start = end;
+    if (!/^\s*([-*+]|\d{1,9}[.)])\s/.test(lines[end])) {
+        while (start > 0 && lines[start - 1].trim().length > 0) start--;
+    }
+    return lines.slice(start, end + 1).map(line => line.replace(marker, ""));
+}
+
+// The part of a note an embed subpath points at, or null when it does not exist
+function embeddedPart(content: string, subpath: string): string | null {
+    const body = splitFrontmatter(content).body;
+    const parts = subpath.split("#").filter(part => part.trim().length > 0);
+    if (parts.length === 0) return body.trim();
+
+    const lines = body.split("\n");
+    const last = parts[parts.length - 1].trim();
+    if (last.startsWith("^")) {
+        const block = blockLines(lines, last.slice(1));
+        return block ? block.join("\n").trim() : null;
+    }
+
+    const sections = buildSectionIndex(linesOf(body));
+    const index = findSectionByPath(sections, parts);
+    if (index === -1) return null;
+    return lines.slice(sections[index].headingLine, sections[index].end + 1).join("\n").trim();
+}
+
+async function expandAttachment(app: App, file: TFile, alt: string, options: EmbedOptions): Promise<string | null> {
+    const prefix = isImage(file) ? "!" : "";
+    if (options.attachments === "path") {
+        return `${prefix}[${alt}](${encodeURI(relativePath(options.hostPath, file.path))})`;
+    }
+    if (options.attachments === "data") {
+        const mime = MIME_TYPES[file.extension.toLowerCase()] ?? "application/octet-stream";
+        const data = arrayBufferToBase64(await app.vault.readBinary(file));
+        return `${prefix}[${alt}](data:${mime};base64,${data})`;
+    }
+    return null;
+}
+
+// Replaces embeds in text written for options.hostPath with what they show. Notes already
+// being expanded further up are left as links, which stops embed cycles.
+export async function expandEmbeds(app: App, text: string, options: EmbedOptions, chain: string[] = []): Promise<string> {
+    const host = app.vault.getAbstractFileByPath(options.hostPath);
+    const lines = text.split("\n");
+    let inFence = false;
+
+    for (let i = 0; i < lines.length; i++) {
+        if (FENCE.test(lines[i])) inFence = !inFence;
+        if (inFence || !lines[i].includes("![")) continue;
+
+        const matches: string[][] = [];
+        lines[i].replace(EMBED, (...match: string[]) => {
+            matches.push(match);
+            return match[0];
+        });
+
+        // Embedded notes show as blocks; an embed inside a quote or callout keeps its markers on every line
+        const [, prefix, rest] = lines[i].match(/^([ \t]*(?:>[ \t]?)*)(.*)$/);
+        const asBlock = (content: string) => {
+            if (matches.length === 1 && rest.trim() === matches[0][0]) return content.split("\n").join(`\n${prefix}`);
+            return content.includes("\n") ? `\n\n${content}\n\n` : content;
+        };
+
+        const replacements: string[] = [];
+        for (const [embed, wikiTarget, alias, mdAlt, mdTarget] of matches) {
+            let target = wikiTarget;
+            if (target === undefined) {
+                if (/^[a-z][a-z0-9+.-]*:/i.test(mdTarget)) {
+                    replacements.push(embed);
+                    continue;
+                }
+                try {
+                    target = decodeURI(mdTarget);
+                } catch {
+                    replacements.push(embed);
+                    continue;
+                }
+            }
+
+            const hash = target.indexOf("#");
+            const path = hash === -1 ? target : target.slice(0, hash);
+            const subpath = hash === -1 ? "" : target.slice(hash);
+            const file = path.trim() === "" ? host : app.metadataCache.getFirstLinkpathDest(path.trim(), options.hostPath);
+            if (!(file instanceof TFile)) {
+                replacements.push(embed);
+                continue;
+            }
+
+            if (file.extension !== "md") {
+                const alt = (alias ?? "").replace(/^\|/, "").trim() || mdAlt || file.basename;
+                // Obsidian reads a bare number as the image width, not as a caption
+                replacements.push(await expandAttachment(app, file, /^\d+(x\d+)?$/.test(alt) ? file.basename : alt, options) ?? embed);
+                continue;
+            }
+
+            const key = `${file.path}${subpath}`.toLowerCase();
+            if (chain.length >= options.maxDepth || chain.includes(key)) {
+                replacements.push(embed);
+                continue;
+            }
+            const part = embeddedPart(await app.vault.cachedRead(file), subpath);
+            if (part === null) {
+                replacements.push(embed);
+                continue;
+            }
+            // Once relinked, the embedded text resolves like the rest of the host note
+            replacements.push(asBlock(await expandEmbeds(app, relinkFrom(app, part, file, options.hostPath), options, [...chain, key])));
+        }
+
+        let index = 0;
+        lines[i] = lines[i].replace(EMBED, () => replacements[index++]);
+    }
+    return lines.join("\n");
+}
+
+// Rewrites the links of text taken from one note so they resolve from the host note
+function relinkFrom(app: App, text: string, from: TFile, hostPath: string): string {
+    if (from.path === hostPath) return text;
+    const cache = app.metadataCache;
+    return rewriteLinks(text, (link, _embed, wikilink) => {
+        const target = link.path === "" ? from : cache.getFirstLinkpathDest(link.path, from.path);
+        if (!target || (link.path !== "" && cache.getFirstLinkpathDest(link.path, hostPath) === target)) return null;
+        return { path: cache.fileToLinktext(target, hostPath, wikilink), subpath: link.subpath };
+    });
+}
@@ -0,0 +1,86 @@
+// Text conversions used when copying sections in formats other than raw Markdown.
+
+export type CopyFormat = "markdown" | "html" | "rich" | "plain";
+export type WikilinkMode = "keep" | "markdown" | "text";
+export type SectionLinkKind = "link" | "embed" | "markdown" | "uri";
+
+export const COPY_FORMAT_LABELS: Record<CopyFormat, string> = {
+    markdown: "Markdown",
+    html: "HTML",
+    rich: "Rich text",
+    plain: "Plain text"
+};
+
+export const SECTION_LINK_LABELS: Record<SectionLinkKind, string> = {
+    link: "Link",
+    embed: "Embed",
+    markdown: "Markdown link",
+    uri: "Obsidian URI"
+};
+
+const WIKILINK = /(!?)\[\[([^\]|]+?)(?:\|([^\]]*))?\]\]/g;
+
+// Text Obsidian would show for a link: its alias, or "Note > Heading"
+function linkDisplayText(target: string, alias: string | undefined): string {
+    if (alias) return alias;
+    return target
+        .split("#")
+        .filter(part => part.length > 0)
+        .map(part => part.replace(/^\^/, ""))
+        .join(" > ");
+}
+
+export function convertWikilinks(text: string, mode: WikilinkMode): string {
+    if (mode === "keep") return text;
+
+    return text.replace(WIKILINK, (_match, embed: string, target: string, alias: string | undefined) => {
+        const display = linkDisplayText(target.trim(), alias);
+        if (mode === "text") return display;
+        return `${embed}[${display}](${encodeURI(target.trim())})`;
+    });
+}
+
+// Removes Markdown syntax while keeping the text and the line structure
+export function stripMarkdown(text: string): string {
+    const lines: string[] = [];
+    let inFence = false;
+
+    for (const rawLine of convertWikilinks(text, "text").split("\n")) {
+        let line = rawLine;
+
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+            continue;
+        }
+        if (inFence) {
+            lines.push(line);
+            continue;
+        }
+
+        // Setext underlines and thematic breaks carry no text
+        if (/^ {0,3}(=+|-{3,}|\*{3,}|_{3,})[ \t]*$/.test(line)) continue;
+
+        line = line
+            .replace(/^(\s*>)+\s?/, "")
+            .replace(/^\[!\w+\][+-]?\s*/, "")
+            .replace(/^ {0,3}#{1,6}\s+/, "")
+            .replace(/\s+#+\s*$/, "")
+            .replace(/^(\s*)[-*+]\s+\[.\]\s+/, "$1")
+            .replace(/^(\s*)[*+]\s+/, "$1- ")
+            .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+            .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+            .replace(/%%.*?%%/g, "")
+            .replace(/<[^>]+>/g, "")
+            .replace(/\[\^[^\]]+\]/g, "")
+            .replace(/\s\^[\w-]+$/, "")
+            .replace(/(\*\*|__)(.+?)\1/g, "$2")
+            .replace(/\*(.+?)\*/g, "$1")
+            .replace(/(^|\W)_(.+?)_(?!\w)/g, "$1$2")
+            .replace(/(~~|==)(.+?)\1/g, "$2")
+            .replace(/`([^`]+)`/g, "$1");
+
+        lines.push(line);
+    }
+
+    return lines.join("\n");
+}
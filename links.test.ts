@@ -0,0 +1,31 @@
+import { LinkEdit, revertLinkEdits, rewriteLinks } from './links';
+
+const toX = (text: string, edits?: LinkEdit[]) =>
+    rewriteLinks(text, target => target.path === "Note" ? { path: "X", subpath: target.subpath } : null, edits);
+
+describe("rewriteLinks", () => {
+    test("rewrites wikilinks, embeds and Markdown links", () => {
+        expect(toX("[[Note#H|alias]] ![[Note]] [text](Note#H) [[Other]]"))
+            .toBe("[[X#H|alias]] ![[X]] [text](X#H) [[Other]]");
+    });
+
+    test("leaves links in fenced and indented code alone", () => {
+        expect(toX("```\n[[Note#H]]\n```\n[[Note]]")).toBe("```\n[[Note#H]]\n```\n[[X]]");
+        expect(toX("> ~~~\n> [[Note]]\n> ~~~")).toBe("> ~~~\n> [[Note]]\n> ~~~");
+        expect(toX("text\n\n    [[Note]]\n\n[[Note]]")).toBe("text\n\n    [[Note]]\n\n[[X]]");
+    });
+
+    test("leaves links in inline code alone", () => {
+        expect(toX("see `[[Note]]` or ``a ` [[Note]]`` and [[Note]]"))
+            .toBe("see `[[Note]]` or ``a ` [[Note]]`` and [[X]]");
+    });
+
+    test("records edits that revert the rewrite", () => {
+        const edits: LinkEdit[] = [];
+        const text = "`[[Note]]` [[Note#H]] and [t](Note)";
+        const rewritten = toX(text, edits);
+        expect(rewritten).toBe("`[[Note]]` [[X#H]] and [t](X)");
+        expect(edits).toHaveLength(2);
+        expect(revertLinkEdits(rewritten, edits)).toBe(text);
+    });
+});
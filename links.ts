@@ -0,0 +1,107 @@
+// Finds wikilinks and Markdown links in note text and rewrites their targets.
+// Links inside code blocks and inline code are examples, not links, and are never touched.
+
+import { codeLines, linesOf } from './sections';
+
+export interface LinkTarget {
+    path: string; // Link path as written, "" for links within the same note
+    subpath: string; // Heading or block part including the leading "#", "" when absent
+}
+
+const LINK = /(!?)\[\[([^\]|]*?)(\|[^\]]*)?\]\]|(!?)\[([^\]]*)\]\(([^)\s]+)\)/g;
+const INLINE_CODE = /(`+)[^\n]*?[^`\n]\1(?!`)/g;
+
+function splitTarget(target: string): LinkTarget {
+    const hash = target.indexOf("#");
+    if (hash === -1) return { path: target, subpath: "" };
+    return { path: target.slice(0, hash), subpath: target.slice(hash) };
+}
+
+// Character ranges of code in the text: code block lines and inline code spans
+function codeRanges(text: string): [number, number][] {
+    const code = codeLines(linesOf(text));
+    const ranges: [number, number][] = [];
+    let start = 0;
+    text.split("\n").forEach((line, index) => {
+        if (code.has(index)) {
+            ranges.push([start, start + line.length]);
+        } else if (line.includes("`")) {
+            line.replace(INLINE_CODE, (match: string, _ticks: string, offset: number) => {
+                ranges.push([start + offset, start + offset + match.length]);
+                return match;
+            });
+        }
+        start += line.length + 1;
+    });
+    return ranges;
+}
+
+function isExternal(url: string): boolean {
+    return /^[a-z][a-z0-9+.-]*:/i.test(url);
+}
+
+// Last heading of a subpath such as "#Parent#Child", or the block id for "#^id"
+export function subpathName(subpath: string): string {
+    const parts = subpath.split("#").filter(part => part.length > 0);
+    return parts.length > 0 ? parts[parts.length - 1].trim() : "";
+}
+
+// Heading text as it can appear in a link subpath; Obsidian drops the characters links reserve
+export function linkableHeading(title: string): string {
+    return title
+        .replace(/\s\^[\w-]+$/, "")
+        .replace(/[#|^[\]]/g, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+// A link rewritten in place: offset is where the new link text starts in the rewritten text
+export interface LinkEdit {
+    offset: number;
+    before: string;
+    after: string;
+}
+
+// Calls rewrite for every internal link; returning null leaves the link untouched.
+// Changed links are added to edits when given, so the rewrite can be reverted later.
+export function rewriteLinks(text: string, rewrite: (target: LinkTarget, embed: boolean, wikilink: boolean) => LinkTarget | null, edits?: LinkEdit[]): string {
+    const code = codeRanges(text);
+    let shift = 0;
+    const record = (match: string, replacement: string, offset: number): string => {
+        if (edits && replacement !== match) {
+            edits.push({ offset: offset + shift, before: match, after: replacement });
+            shift += replacement.length - match.length;
+        }
+        return replacement;
+    };
+
+    return text.replace(LINK, (match: string, wikiEmbed: string, wikiTarget: string, alias: string | undefined,
+        mdEmbed: string, mdText: string, mdTarget: string, offset: number) => {
+        if (code.some(([from, to]) => offset >= from && offset < to)) return match;
+        if (wikiTarget !== undefined) {
+            const target = rewrite(splitTarget(wikiTarget), wikiEmbed === "!", true);
+            if (!target) return match;
+            return record(match, `${wikiEmbed}[[${target.path}${target.subpath}${alias ?? ""}]]`, offset);
+        }
+
+        if (isExternal(mdTarget)) return match;
+        let decoded: string;
+        try {
+            decoded = decodeURI(mdTarget);
+        } catch {
+            return match;
+        }
+        const target = rewrite(splitTarget(decoded), mdEmbed === "!", false);
+        if (!target) return match;
+        return record(match, `${mdEmbed}[${mdText}](${encodeURI(target.path + target.subpath)})`, offset);
+    });
+}
+
+// Undoes the edits rewriteLinks recorded, given the text exactly as it rewrote it
+export function revertLinkEdits(text: string, edits: LinkEdit[]): string {
+    for (let i = edits.length - 1; i >= 0; i--) {
+        const { offset, before, after } = edits[i];
+        text = text.slice(0, offset) + before + text.slice(offset + after.length);
+    }
+    return text;
+}
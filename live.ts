@@ -0,0 +1,252 @@
+// Live compilations: merged notes that rebuild themselves when their source notes change.
+// The sources and options of a live merge are stored in the output's frontmatter.
+
+import { App, debounce, Debouncer, Modal, Notice, parseYaml, TAbstractFile, TFile } from 'obsidian';
+import type SelectSectionPlugin from './main';
+import { hashContent, HeadingGroups, MergeFormatOptions, PRESET_KEY, splitFrontmatter, withFrontmatter } from './merge';
+
+const SOURCES_KEY = "sectcy-live-sources";
+const OPTIONS_KEY = "sectcy-live-options";
+const HASH_KEY = "sectcy-live-hash";
+
+const REBUILD_DELAY = 2000;
+
+export interface LiveMergeSpec {
+    format: MergeFormatOptions;
+    folderHeadings: Record<string, string[]>; // Keyed by source path
+    byHeading?: HeadingGroups;
+}
+
+export class LiveCompilations {
+    plugin: SelectSectionPlugin;
+    outputs = new Map<string, string[]>(); // Output path -> source paths
+    pending = new Map<string, Debouncer<[], void>>();
+    // Sources of outputs waiting for a rebuild after a source was renamed or deleted
+    renamedSources = new Map<string, string[]>();
+    prompting = new Set<string>();
+
+    constructor(plugin: SelectSectionPlugin) {
+        this.plugin = plugin;
+    }
+
+    get app(): App {
+        return this.plugin.app;
+    }
+
+    load() {
+        this.app.workspace.onLayoutReady(() => this.scan());
+
+        this.plugin.registerEvent(this.app.metadataCache.on("changed", (file) => this.track(file)));
+
+        this.plugin.registerEvent(this.app.vault.on("modify", (file) => {
+            this.outputsUsing(file.path).forEach(output => this.schedule(output));
+        }));
+
+        this.plugin.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+            const sources = this.outputs.get(oldPath);
+            if (sources) {
+                this.outputs.delete(oldPath);
+                this.outputs.set(file.path, sources);
+            }
+            this.outputsUsing(oldPath).forEach(output => {
+                this.schedule(output, this.sourcesOf(output).map(path => path === oldPath ? file.path : path));
+            });
+        }));
+
+        this.plugin.registerEvent(this.app.vault.on("delete", (file) => {
+            this.outputs.delete(file.path);
+            this.outputsUsing(file.path).forEach(output => {
+                this.schedule(output, this.sourcesOf(output).filter(path => path !== file.path));
+            });
+        }));
+    }
+
+    unload() {
+        this.pending.forEach(debouncer => debouncer.cancel());
+        this.pending.clear();
+        this.renamedSources.clear();
+    }
+
+    scan() {
+        this.outputs.clear();
+        this.app.vault.getMarkdownFiles().forEach(file => this.track(file));
+    }
+
+    track(file: TFile) {
+        const sources = this.app.metadataCache.getFileCache(file)?.frontmatter?.[SOURCES_KEY];
+        if (Array.isArray(sources)) {
+            this.outputs.set(file.path, sources.map(String));
+        } else {
+            this.outputs.delete(file.path);
+        }
+    }
+
+    outputsUsing(sourcePath: string): string[] {
+        return [...this.outputs.keys()].filter(output => this.sourcesOf(output).includes(sourcePath));
+    }
+
+    // Sources an output will be rebuilt from, including renames and deletions not written to it yet
+    sourcesOf(outputPath: string): string[] {
+        return this.renamedSources.get(outputPath) ?? this.outputs.get(outputPath) ?? [];
+    }
+
+    // Adds the live properties to freshly merged content. The hash is taken from the body
+    // as it reads back from the written note, so an untouched output never counts as edited.
+    markLive(content: string, sources: string[], spec: LiveMergeSpec): string {
+        const marked = withFrontmatter(content, {
+            [SOURCES_KEY]: sources,
+            [OPTIONS_KEY]: spec
+        });
+        return withFrontmatter(marked, { [HASH_KEY]: hashContent(splitFrontmatter(marked).body) });
+    }
+
+    schedule(outputPath: string, sources?: string[]) {
+        if (sources) this.renamedSources.set(outputPath, sources);
+        let debouncer = this.pending.get(outputPath);
+        if (!debouncer) {
+            debouncer = debounce(() => {
+                this.pending.delete(outputPath);
+                const renamed = this.renamedSources.get(outputPath);
+                this.renamedSources.delete(outputPath);
+                this.rebuild(outputPath, renamed).catch(error => {
+                    console.error(`Could not rebuild live compilation ${outputPath}:`, error);
+                    new Notice(`Failed to rebuild ${outputPath.split('/').pop()}. See console for details.`);
+                });
+            }, REBUILD_DELAY, true);
+            this.pending.set(outputPath, debouncer);
+        }
+        debouncer();
+    }
+
+    async refreshAll() {
+        const outputs = [...this.outputs.keys()];
+        if (outputs.length === 0) {
+            new Notice("There are no live compilations.");
+            return;
+        }
+        let failed = 0;
+        for (const output of outputs) {
+            try {
+                await this.rebuild(output);
+            } catch (error) {
+                failed++;
+                console.error(`Could not rebuild live compilation ${output}:`, error);
+            }
+        }
+        if (failed > 0) {
+            new Notice(`Refreshed ${outputs.length - failed} live compilations, ${failed} failed. See console for details.`);
+        } else {
+            new Notice(`Refreshed ${outputs.length} live compilations.`);
+        }
+    }
+
+    async rebuild(outputPath: string, sources?: string[], force = false) {
+        const output = this.app.vault.getAbstractFileByPath(outputPath);
+        if (!(output instanceof TFile)) return;
+
+        const current = await this.app.vault.read(output);
+        const { frontmatter, body } = splitFrontmatter(current);
+        let data: Record<string, unknown>;
+        try {
+            data = frontmatter !== null ? parseYaml(frontmatter) : null;
+        } catch (error) {
+            console.error(`Could not read live compilation ${outputPath}:`, error);
+            return;
+        }
+        if (!data || !Array.isArray(data[SOURCES_KEY])) return;
+
+        const spec = data[OPTIONS_KEY] as LiveMergeSpec;
+        const sourcePaths = sources ?? (data[SOURCES_KEY] as unknown[]).map(String);
+
+        if (!force && data[HASH_KEY] !== hashContent(body)) {
+            this.confirmOverwrite(output, () => this.rebuild(outputPath, sourcePaths, true));
+            return;
+        }
+
+        const files = sourcePaths
+            .map(path => this.app.vault.getAbstractFileByPath(path))
+            .filter((file: TAbstractFile | null): file is TFile => file instanceof TFile);
+        const folderHeadings = new Map<TFile, string[]>();
+        files.forEach(file => {
+            const headings = spec?.folderHeadings?.[file.path];
+            if (headings) folderHeadings.set(file, headings);
+        });
+
+        const content = await this.plugin.composeMerge(files, output.path, {
+            format: Object.assign({}, this.plugin.settings.mergeFormat, spec?.format),
+            folderHeadings,
+            byHeading: spec?.byHeading
+        }, []);
+
+        // Folder headings follow their notes when those are renamed
+        const renamed: Record<string, string[]> = {};
+        files.forEach(file => {
+            if (folderHeadings.has(file)) renamed[file.path] = folderHeadings.get(file);
+        });
+        let updated = this.markLive(content, sourcePaths, { format: spec?.format, folderHeadings: renamed, byHeading: spec?.byHeading });
+        if (data[PRESET_KEY] !== undefined) updated = withFrontmatter(updated, { [PRESET_KEY]: data[PRESET_KEY] });
+        if (updated !== current) {
+            await this.app.vault.modify(output, updated);
+        }
+    }
+
+    confirmOverwrite(output: TFile, onConfirm: () => void) {
+        if (this.prompting.has(output.path)) return;
+        this.prompting.add(output.path);
+
+        new ConfirmModal(
+            this.app,
+            "Live compilation edited",
+            `${output.basename} was edited by hand since it was last compiled. Rebuilding it will discard those edits.`,
+            "Rebuild",
+            onConfirm,
+            () => this.prompting.delete(output.path)
+        ).open();
+    }
+}
+
+export class ConfirmModal extends Modal {
+    title: string;
+    message: string;
+    confirmText: string;
+    onConfirm: () => void;
+    onDismiss: () => void;
+
+    constructor(app: App, title: string, message: string, confirmText: string, onConfirm: () => void, onDismiss: () => void = () => { }) {
+        super(app);
+        this.title = title;
+        this.message = message;
+        this.confirmText = confirmText;
+        this.onConfirm = onConfirm;
+        this.onDismiss = onDismiss;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl("h2", { text: this.title });
+        contentEl.createEl("p", { text: this.message });
+
+        const buttonContainer = contentEl.createDiv({ cls: "merge-notes-buttons" });
+        buttonContainer.style.marginTop = "1rem";
+        buttonContainer.style.display = "flex";
+        buttonContainer.style.justifyContent = "flex-end";
+        buttonContainer.style.gap = "10px";
+
+        const cancelButton = buttonContainer.createEl("button", { text: "Cancel" });
+        cancelButton.onclick = () => this.close();
+
+        const confirmButton = buttonContainer.createEl("button", { text: this.confirmText, cls: "mod-warning" });
+        confirmButton.onclick = () => {
+            this.close();
+            this.onConfirm();
+        };
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.onDismiss();
+    }
+}
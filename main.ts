@@ -1,14 +1,68 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, MarkdownPostProcessorContext, setIcon, TFolder, TFile } from 'obsidian';
-import { Extension, StateField, StateEffect, RangeSetBuilder, Transaction } from "@codemirror/state";
+import { App, Component, editorInfoField, FuzzySuggestModal, Editor, EditorChange, EditorPosition, EditorSelectionOrCaret, Keymap, MarkdownRenderer, MarkdownView, Menu, Modal, moment, normalizePath, Notice, Plugin, PluginSettingTab, Setting, MarkdownPostProcessorContext, setIcon, TAbstractFile, TFolder, TFile } from 'obsidian';
+import { EditorState, Extension, StateField, StateEffect, RangeSetBuilder, Text, Transaction } from "@codemirror/state";
+import { syntaxTree } from "@codemirror/language";
 import { EditorView, Decoration, DecorationSet, WidgetType, ViewPlugin, ViewUpdate } from "@codemirror/view";
+import { buildSectionIndex, findSectionAt, findSectionByHeading, findSectionByPath, headingPath, LineSource, linesOf, SectionRange, sectionsInRanges, subtreeOf } from './sections';
+import { LineEdit, moveSection, shiftSectionLevels, splitByHeading } from './restructure';
+import { LinkEdit, linkableHeading, LinkTarget, revertLinkEdits, rewriteLinks, subpathName } from './links';
+import { allTags, buildMergedByHeading, buildMergedContent, collectFolderFilesRecursive, createMergePreset, DEFAULT_MERGE_FORMAT, DEFAULT_POST_MERGE, filesWithProperty, filesWithTag, FrontmatterConflict, FrontmatterMode, groupHeadings, hashContent, markdownFilesIn, markdownFilesInSelection, matchesGlob, MergeFormatOptions, MergeJournalEntry, MergeOptions, MergeOrder, MergePart, MergePreset, MergeSource, PostMergeAction, PostMergeOptions, PRESET_KEY, renderFileNameTemplate, sortFiles, withFrontmatter } from './merge';
+import { convertWikilinks, COPY_FORMAT_LABELS, CopyFormat, SECTION_LINK_LABELS, SectionLinkKind, stripMarkdown, WikilinkMode } from './formats';
+import { LiveCompilations } from './live';
+import { CollectionItem, CollectionView, composeCollection, VIEW_TYPE_COLLECTION } from './collection';
+import { OutlineView, VIEW_TYPE_OUTLINE } from './outline';
+import { AttachmentMode, EmbedOptions, expandEmbeds } from './embeds';
+import { DEFAULT_CONTEXT_TEMPLATE, formatPropertyValue, relevelToTop, renderContextHeader } from './context';
+import { readingMinutes, sectionStats, SectionStats } from './stats';
+import { SectionApi } from './api';
+import { ACTION_TRANSFORM_LABELS, ActionTransform, actionAppliesTo, createCustomAction, CustomAction, regexReplace, rewritesSection, sortListItems, toBlockquote, wrapInCallout } from './actions';
+
+interface BadgeMetrics {
+    words: boolean;
+    characters: boolean;
+    readingTime: boolean;
+    tasks: boolean;
+}
 
 interface SelectSectionSettings {
     alwaysShowIcons: boolean;
     includeHeader: boolean;
     showSelectButton: boolean;
     showCopyButton: boolean;
+    showCollectButton: boolean;
+    showLinkButton: boolean;
     showSelectHeaderButton: boolean;
+    showMoveButtons: boolean;
+    showLevelButtons: boolean;
+    showExtractButton: boolean;
+    extractFolder: string;
+    extractFileNameTemplate: string;
+    extractLinkStyle: "link" | "embed";
     compactButtons: boolean;
+    copyFormat: CopyFormat;
+    copyWikilinks: WikilinkMode;
+    copyContext: boolean;
+    contextTemplate: string;
+    contextProperties: string[]; // Frontmatter fields added to the context header
+    contextHeadingLevel: number; // Level the copied headings start at, 0 to keep them
+    copyExpandEmbeds: boolean;
+    embedDepth: number; // How many levels of embeds inside embeds are expanded
+    embedAttachments: AttachmentMode;
+    sectionLinkTarget: "heading" | "block";
+    recursiveMergeMaxDepth: number;
+    recursiveMergeExclude: string[];
+    mergeFormat: MergeFormatOptions;
+    postMerge: PostMergeOptions;
+    mergeJournal: MergeJournalEntry[];
+    mergePresets: MergePreset[];
+    collection: CollectionItem[];
+    collectionSourceLinks: boolean;
+    showBadges: boolean;
+    badgeMetrics: BadgeMetrics;
+    badgeIncludeChildren: boolean;
+    readingSpeed: number;
+    sectionWordLimits: number[]; // Per heading level, 0 for no limit
+    customActions: CustomAction[];
+    buttonOrder: string[]; // Built-in button names and "custom-" action ids, in display order
 }
 
 const DEFAULT_SETTINGS: SelectSectionSettings = {
@@ -16,19 +70,83 @@ const DEFAULT_SETTINGS: SelectSectionSettings = {
     includeHeader: true,
     showSelectButton: true,
     showCopyButton: true,
+    showCollectButton: true,
+    showLinkButton: false,
     showSelectHeaderButton: true,
-    compactButtons: false
+    showMoveButtons: false,
+    showLevelButtons: false,
+    showExtractButton: false,
+    extractFolder: "",
+    extractFileNameTemplate: "{{heading}}",
+    extractLinkStyle: "link",
+    compactButtons: false,
+    copyFormat: "markdown",
+    copyWikilinks: "keep",
+    copyContext: false,
+    contextTemplate: DEFAULT_CONTEXT_TEMPLATE,
+    contextProperties: [],
+    contextHeadingLevel: 0,
+    copyExpandEmbeds: false,
+    embedDepth: 3,
+    embedAttachments: "keep",
+    sectionLinkTarget: "heading",
+    recursiveMergeMaxDepth: 0,
+    recursiveMergeExclude: [],
+    mergeFormat: DEFAULT_MERGE_FORMAT,
+    postMerge: DEFAULT_POST_MERGE,
+    mergeJournal: [],
+    mergePresets: [],
+    collection: [],
+    collectionSourceLinks: true,
+    showBadges: false,
+    badgeMetrics: { words: true, characters: false, readingTime: true, tasks: true },
+    badgeIncludeChildren: true,
+    readingSpeed: 200,
+    sectionWordLimits: [0, 0, 0, 0, 0, 0],
+    customActions: [],
+    buttonOrder: []
 }
 
+// Built-in header buttons in their default order, by the name in their "select-section-btn-" class
+const BUILT_IN_BUTTONS: Record<string, string> = {
+    "select": "Select Section",
+    "copy": "Copy Section",
+    "collect": "Add to Collection",
+    "link": "Copy Link to Section",
+    "select-header": "Select Header Title Only",
+    "move-up": "Move Section Up",
+    "move-down": "Move Section Down",
+    "promote": "Promote Section",
+    "demote": "Demote Section",
+    "extract": "Extract Section"
+};
+
+// Number of merges "Undo last merge" can step back through
+const MERGE_JOURNAL_LIMIT = 10;
+
 export default class SelectSectionPlugin extends Plugin {
     settings: SelectSectionSettings;
+    liveCompilations: LiveCompilations;
+    // Public API for other plugins and scripts, typed in sectcy.d.ts
+    api: SectionApi;
+    // Bumped on every settings change so Live Preview widgets redraw their buttons
+    settingsVersion = 0;
+    // Note text and sections shared by the badges of one Reading View render, by note path
+    badgeIndexes = new Map<string, Promise<{ source: LineSource, sections: SectionRange[] }>>();
 
     async onload() {
         await this.loadSettings();
+        this.api = new SectionApi(this);
         this.refreshBodyClass();
 
         // Register CodeMirror extension for Live Preview
-        this.registerEditorExtension(selectSectionExtension(this));
+        this.registerEditorExtension([selectSectionExtension(this), sectionBadgeExtension(this)]);
+
+        // Compact action menus close on any click outside of them, in every window
+        this.registerDomEvent(document, "click", closeCompactMenus);
+        this.registerEvent(this.app.workspace.on("window-open", (win) => {
+            this.registerDomEvent(win.doc, "click", closeCompactMenus);
+        }));
 
         // Register MarkdownPostProcessor for Reading View
         this.registerMarkdownPostProcessor((element, context) => {
@@ -40,6 +158,132 @@ export default class SelectSectionPlugin extends Plugin {
 
         this.addSettingTab(new SelectSectionSettingTab(this.app, this));
 
+        this.registerView(VIEW_TYPE_COLLECTION, (leaf) => new CollectionView(leaf, this));
+        this.addCommand({
+            id: "open-section-collection",
+            name: "Open section collection",
+            callback: async () => {
+                await this.activateCollectionView();
+            }
+        });
+
+        this.registerView(VIEW_TYPE_OUTLINE, (leaf) => new OutlineView(leaf, this));
+        this.addCommand({
+            id: "open-section-outline",
+            name: "Open section outline",
+            callback: async () => {
+                await this.activateOutlineView();
+            }
+        });
+
+        // Collected sections follow their notes when those are renamed
+        this.registerEvent(this.app.vault.on("rename", async (file, oldPath) => {
+            if (!this.settings.collection.some(item => item.sourcePath === oldPath)) return;
+            this.settings.collection.forEach(item => {
+                if (item.sourcePath === oldPath) item.sourcePath = file.path;
+            });
+            await this.updateCollection(this.settings.collection);
+        }));
+
+        this.addSectionCommands();
+
+        this.addCommand({
+            id: "merge-notes-with-tag",
+            name: "Merge notes with tag",
+            callback: () => {
+                new TagSuggestModal(this.app, (tag) => this.mergeTaggedFiles(tag)).open();
+            }
+        });
+
+        this.addCommand({
+            id: "merge-notes-by-property",
+            name: "Merge notes by property",
+            callback: () => {
+                new PropertyQueryModal(this.app, (key, value) => this.mergePropertyFiles(key, value)).open();
+            }
+        });
+
+        this.addCommand({
+            id: "run-merge-preset",
+            name: "Run merge preset",
+            callback: () => {
+                if (this.settings.mergePresets.length === 0) {
+                    new Notice("No merge presets yet. Add one in the plugin settings.");
+                    return;
+                }
+                new MergePresetSuggestModal(this.app, this.settings.mergePresets, (preset) => this.runMergePreset(preset)).open();
+            }
+        });
+        this.settings.mergePresets.forEach(preset => this.addMergePresetCommand(preset));
+        this.settings.customActions.forEach(action => this.addCustomActionCommand(action));
+
+        this.liveCompilations = new LiveCompilations(this);
+        this.liveCompilations.load();
+
+        this.addCommand({
+            id: "refresh-live-compilations",
+            name: "Refresh all live compilations",
+            callback: async () => {
+                await this.liveCompilations.refreshAll();
+            }
+        });
+
+        this.addCommand({
+            id: "undo-last-merge",
+            name: "Undo last merge",
+            callback: async () => {
+                await this.undoLastMerge();
+            }
+        });
+
+        this.addCommand({
+            id: "split-note-by-heading",
+            name: "Split current note by heading",
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== "md") return false;
+                if (!checking) this.openSplitNoteModal(file);
+                return true;
+            }
+        });
+
+        this.registerEvent(
+            this.app.workspace.on("files-menu", (menu, files) => {
+                menu.addItem((item) => {
+                    item
+                        .setTitle("Merge Selected Notes")
+                        .setIcon("documents")
+                        .onClick(() => {
+                            this.mergeSelectedFiles(files);
+                        });
+                });
+            })
+        );
+
+        // Batch actions once several sections are selected
+        this.registerEvent(
+            this.app.workspace.on("editor-menu", (menu, editor, info) => {
+                if (editor.listSelections().length < 2) return;
+                menu.addItem((item) => item
+                    .setTitle("Copy selected sections")
+                    .setIcon("copy")
+                    .onClick(() => this.copySelectedSections(editor)));
+                menu.addItem((item) => item
+                    .setTitle("Delete selected sections")
+                    .setIcon("trash")
+                    .onClick(() => this.deleteSelectedSections(editor)));
+                const source = info.file;
+                if (source) {
+                    menu.addItem((item) => item
+                        .setTitle("Move selected sections to another note")
+                        .setIcon("file-output")
+                        .onClick(() => {
+                            new NoteSuggestModal(this.app, "Move sections to...", (target) => this.moveSelectedSections(editor, source, target)).open();
+                        }));
+                }
+            })
+        );
+
         this.registerEvent(
             this.app.workspace.on("file-menu", (menu, file) => {
                 if (file instanceof TFolder) {
@@ -52,6 +296,15 @@ export default class SelectSectionPlugin extends Plugin {
                             });
                     });
 
+                    menu.addItem((item) => {
+                        item
+                            .setTitle("Merge Folder Notes Recursively")
+                            .setIcon("folder-tree")
+                            .onClick(async () => {
+                                await this.mergeFolderNotesRecursive(file);
+                            });
+                    });
+
                     menu.addItem((item) => {
                         item
                             .setTitle("Merge Some Folder Notes")
@@ -60,76 +313,520 @@ export default class SelectSectionPlugin extends Plugin {
                                 await this.mergeSomeFolderNotes(file);
                             });
                     });
+
+                    this.settings.mergePresets
+                        .filter(preset => preset.source === "folder")
+                        .forEach(preset => {
+                            menu.addItem((item) => {
+                                item
+                                    .setTitle(`Merge with Preset: ${preset.name}`)
+                                    .setIcon("bookmark")
+                                    .onClick(async () => {
+                                        await this.runMergePreset(preset, file);
+                                    });
+                            });
+                        });
+                } else if (file instanceof TFile && file.extension === "md") {
+                    menu.addItem((item) => {
+                        item
+                            .setTitle("Split Note by Heading")
+                            .setIcon("scissors")
+                            .onClick(() => {
+                                this.openSplitNoteModal(file);
+                            });
+                    });
                 }
             })
         );
     }
 
+    openSplitNoteModal(file: TFile) {
+        new SplitNoteModal(this.app, file, async (options) => {
+            await this.splitNote(file, options);
+        }).open();
+    }
+
+    async splitNote(file: TFile, options: SplitNoteOptions) {
+        const content = await this.app.vault.read(file);
+        const source = linesOf(content);
+        const sections = buildSectionIndex(source);
+        if (!sections.some(section => section.level <= options.level)) {
+            new Notice(`No H${options.level} headings to split this note by.`);
+            return;
+        }
+        const pieces = splitByHeading(source, sections, options.level, options.keepHeadings, file.basename);
+
+        const folderPath = normalizePath(options.folder.trim() || file.parent?.path || "/");
+        // Numbered names keep the original order under the natural sort used by merging
+        const width = Math.max(2, String(pieces.length).length);
+
+        try {
+            await this.ensureFolder(folderPath);
+
+            const created: TFile[] = [];
+            for (const [index, piece] of pieces.entries()) {
+                const title = sanitizeFileName(piece.title);
+                const fileName = options.numbered ? `${String(index + 1).padStart(width, "0")} ${title}` : title;
+                created.push(await this.app.vault.create(this.availablePath(folderPath, fileName), piece.content));
+            }
+
+            if (options.replaceWithIndex) {
+                const index = created.map(piece => `- ${this.app.fileManager.generateMarkdownLink(piece, file.path)}`);
+                await this.app.vault.modify(file, index.join("\n") + "\n");
+            }
+
+            new Notice(`Split ${file.name} into ${created.length} notes in ${folderPath}`);
+        } catch (error) {
+            console.error("Error splitting note:", error);
+            new Notice("Failed to split note. See console for details.");
+        }
+    }
+
+    // First free "{name}.md", "{name} 1.md", ... path in a folder
+    availablePath(folderPath: string, baseName: string): string {
+        const prefix = folderPath === "/" ? "" : `${folderPath}/`;
+        let filePath = `${prefix}${baseName}.md`;
+        let counter = 1;
+        while (this.app.vault.getAbstractFileByPath(filePath)) {
+            filePath = `${prefix}${baseName} ${counter}.md`;
+            counter++;
+        }
+        return filePath;
+    }
+
+    async ensureFolder(folderPath: string) {
+        if (folderPath !== "/" && !this.app.vault.getAbstractFileByPath(folderPath)) {
+            await this.app.vault.createFolder(folderPath);
+        }
+    }
+
     async mergeFolderNotes(folder: TFolder) {
-        const files = folder.children
-            .filter((file): file is TFile => file instanceof TFile && file.extension === "md")
-            .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }));
+        const files = markdownFilesIn(folder);
 
         if (files.length === 0) {
             new Notice("No markdown files found in this folder.");
             return;
         }
 
-        await this.performMerge(folder, files);
+        await this.performMerge(files, { outputFolder: folder.path, outputName: folder.name });
+    }
+
+    async mergeFolderNotesRecursive(folder: TFolder) {
+        const { files, folderHeadings } = collectFolderFilesRecursive(folder, {
+            maxDepth: this.settings.recursiveMergeMaxDepth,
+            exclude: this.settings.recursiveMergeExclude
+        });
+
+        if (files.length === 0) {
+            new Notice("No markdown files found in this folder or its subfolders.");
+            return;
+        }
+
+        await this.performMerge(files, { outputFolder: folder.path, outputName: folder.name, folderHeadings });
     }
 
     async mergeSomeFolderNotes(folder: TFolder) {
-        const files = folder.children
-            .filter((file): file is TFile => file instanceof TFile && file.extension === "md")
-            .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }));
+        const files = markdownFilesIn(folder);
 
         if (files.length === 0) {
             new Notice("No markdown files found in this folder.");
             return;
         }
 
-        new MergeNotesModal(this.app, files, async (selectedFiles) => {
-            await this.performMerge(folder, selectedFiles);
+        this.openMergeModal("Merge Some Folder Notes", files, folder.path, folder.name);
+    }
+
+    // Lets the user order, pick and place the output of any set of notes before merging
+    openMergeModal(title: string, files: TFile[], outputFolder: string, outputName: string) {
+        new MergeNotesModal(this.app, title, files, { ...this.settings, outputFolder, outputName }, async (selectedFiles, options) => {
+            await this.performMerge(selectedFiles, options);
         }).open();
     }
 
-    async performMerge(folder: TFolder, files: TFile[]) {
-        let mergedContent = "";
-        for (const file of files) {
-            const content = await this.app.vault.read(file);
-            if (mergedContent.length > 0) {
-                mergedContent += "\n\n";
+    mergeSelectedFiles(selection: TAbstractFile[]) {
+        const files = markdownFilesInSelection(selection);
+        if (files.length === 0) {
+            new Notice("No markdown files in the selection.");
+            return;
+        }
+        this.openMergeModal("Merge Selected Notes", files, files[0].parent?.path ?? "/", "Merged notes");
+    }
+
+    mergeTaggedFiles(tag: string) {
+        const files = filesWithTag(this.app, tag);
+        if (files.length === 0) {
+            new Notice(`No notes tagged #${tag}.`);
+            return;
+        }
+        this.openMergeModal(`Merge Notes Tagged #${tag}`, files, "/", sanitizeFileName(tag.replace(/\//g, " ")));
+    }
+
+    mergePropertyFiles(key: string, value: string) {
+        const files = filesWithProperty(this.app, key, value);
+        const query = value.trim() ? `${key}: ${value.trim()}` : key;
+        if (files.length === 0) {
+            new Notice(`No notes match ${query}.`);
+            return;
+        }
+        this.openMergeModal(`Merge Notes With ${query}`, files, "/", sanitizeFileName(value.trim() ? `${key} ${value.trim()}` : key));
+    }
+
+    // Runs a saved merge; a folder from the folder menu replaces the preset's source folder
+    async runMergePreset(preset: MergePreset, folder?: TFolder) {
+        let files: TFile[] = [];
+        let folderHeadings: Map<TFile, string[]> | undefined;
+        let sourceName = preset.name;
+        let sourceFolder = "/";
+
+        if (preset.source === "folder" || folder) {
+            const root = folder ?? this.app.vault.getAbstractFileByPath(normalizePath(preset.folder || "/"));
+            if (!(root instanceof TFolder)) {
+                new Notice(`Folder "${preset.folder}" of preset "${preset.name}" does not exist.`);
+                return;
+            }
+            sourceName = root.name || this.app.vault.getName();
+            sourceFolder = root.path;
+            if (preset.recursive) {
+                ({ files, folderHeadings } = collectFolderFilesRecursive(root, {
+                    maxDepth: this.settings.recursiveMergeMaxDepth,
+                    exclude: this.settings.recursiveMergeExclude,
+                    order: preset.order,
+                    descending: preset.descending
+                }));
+            } else {
+                files = sortFiles(markdownFilesIn(root), preset.order, preset.descending);
             }
-            mergedContent += content;
+        } else if (preset.source === "tag") {
+            files = sortFiles(filesWithTag(this.app, preset.tag), preset.order, preset.descending);
+            sourceName = preset.tag.replace(/^#/, "").replace(/\//g, " ");
+        } else {
+            files = sortFiles(filesWithProperty(this.app, preset.propertyKey, preset.propertyValue), preset.order, preset.descending);
+            sourceName = preset.propertyValue.trim() || preset.propertyKey;
         }
 
-        let fileName = folder.name;
-        let filePath = `${folder.path}/${fileName}.md`;
-        let counter = 1;
+        const outputFolder = normalizePath(preset.outputFolder.trim() || sourceFolder);
+        const outputName = sanitizeFileName(renderFileNameTemplate(preset.fileNameTemplate, sourceName, preset.name));
+        const outputPath = normalizePath(`${outputFolder}/${outputName}.md`);
+        // Never merge the output of an earlier run of the same preset into itself, whatever it was named then
+        files = files.filter(file => file.path !== outputPath
+            && this.app.metadataCache.getFileCache(file)?.frontmatter?.[PRESET_KEY] !== preset.id
+            && !matchesGlob(file, preset.exclude));
 
-        while (this.app.vault.getAbstractFileByPath(filePath)) {
-            filePath = `${folder.path}/${fileName} ${counter}.md`;
-            counter++;
+        if (files.length === 0) {
+            new Notice(`Preset "${preset.name}" found no notes to merge.`);
+            return;
         }
 
+        await this.performMerge(files, {
+            outputFolder,
+            outputName,
+            overwrite: preset.overwrite,
+            folderHeadings,
+            format: preset.format,
+            live: preset.live,
+            preset: preset.id
+        });
+    }
+
+    addMergePresetCommand(preset: MergePreset) {
+        this.addCommand({
+            id: `run-merge-preset-${preset.id}`,
+            name: `Run merge preset: ${preset.name}`,
+            checkCallback: (checking: boolean) => {
+                // Without removeCommand, deleted presets keep their command until the plugin reloads
+                const current = this.settings.mergePresets.find(p => p.id === preset.id);
+                if (!current) return false;
+                if (!checking) this.runMergePreset(current);
+                return true;
+            }
+        });
+    }
+
+    removeMergePresetCommand(preset: MergePreset) {
+        // Available since Obsidian 1.7.2
+        if (typeof this.removeCommand === "function") this.removeCommand(`run-merge-preset-${preset.id}`);
+    }
+
+    async performMerge(files: TFile[], options: MergeOptions = {}): Promise<TFile | null> {
+        const format = options.format ?? this.settings.mergeFormat;
+
+        const folderPath = normalizePath(options.outputFolder?.trim() || files[0]?.parent?.path || "/");
+        const baseName = sanitizeFileName(options.outputName ?? "Merged notes");
+        const unresolved: string[] = [];
+
         try {
-            await this.app.vault.create(filePath, mergedContent);
-            new Notice(`Merged ${files.length} notes into ${filePath.split('/').pop()}`);
+            await this.ensureFolder(folderPath);
+            const existing = this.app.vault.getAbstractFileByPath(normalizePath(`${folderPath}/${baseName}.md`));
+            const replace = options.overwrite && existing instanceof TFile ? existing : null;
+            const filePath = replace ? replace.path : this.availablePath(folderPath, baseName);
+
+            let mergedContent = await this.composeMerge(files, filePath, options, unresolved);
+            let postMerge = options.postMerge ?? this.settings.postMerge;
+            if (options.live) {
+                const folderHeadings: Record<string, string[]> = {};
+                options.folderHeadings?.forEach((headings, file) => folderHeadings[file.path] = headings);
+                mergedContent = this.liveCompilations.markLive(mergedContent, files.map(file => file.path), { format, folderHeadings, byHeading: options.byHeading });
+                // A live compilation needs its sources to stay where they are
+                postMerge = Object.assign({}, postMerge, { action: "keep" });
+            }
+            if (options.byHeading) {
+                // Grouped output takes the notes apart, so the sources stay as they are too
+                postMerge = Object.assign({}, postMerge, { action: "keep" });
+            }
+            if (options.preset) mergedContent = withFrontmatter(mergedContent, { [PRESET_KEY]: options.preset });
+
+            let output: TFile;
+            let previousContent: string | undefined;
+            if (replace) {
+                previousContent = await this.app.vault.read(replace);
+                await this.app.vault.modify(replace, mergedContent);
+                output = replace;
+            } else {
+                output = await this.app.vault.create(filePath, mergedContent);
+            }
+            await this.applyPostMergeActions(output, mergedContent, files, this.mergeLinkFormat(options), postMerge, !!options.byHeading, previousContent);
+            let message = `Merged ${files.length} notes into ${filePath.split('/').pop()}`;
+            if (unresolved.length > 0) {
+                const shown = unresolved.slice(0, 5).join("\n");
+                const more = unresolved.length > 5 ? `\n...and ${unresolved.length - 5} more` : "";
+                message += `\n\nCould not resolve ${unresolved.length} links:\n${shown}${more}`;
+                console.warn("Unresolved links in merged notes:", unresolved);
+            }
+            new Notice(message, unresolved.length > 0 ? 10000 : undefined);
+            this.app.workspace.trigger("sectcy:merge-complete", { output, sources: files, live: options.live ?? false });
+            return output;
         } catch (error) {
             console.error("Error merging notes:", error);
             new Notice("Failed to merge notes. See console for details.");
+            return null;
+        }
+    }
+
+    // Merged text for the given notes as it would be written to outputPath
+    async composeMerge(files: TFile[], outputPath: string, options: MergeOptions, unresolved: string[]): Promise<string> {
+        const format = options.format ?? this.settings.mergeFormat;
+        const linkFormat = this.mergeLinkFormat(options);
+        const parts: MergePart[] = [];
+        for (const file of files) {
+            let content = await this.app.vault.read(file);
+            // Embeds are expanded where they were written, so "![[#Heading]]" shows the note's own heading.
+            // The expanded text is relinked to the note, and from there to the output with the rest.
+            if (format.expandEmbeds) content = await expandEmbeds(this.app, content, this.embedOptions(file.path));
+            content = this.rewriteMergeLinks(content, file, files, outputPath, linkFormat, unresolved, !!options.byHeading);
+            parts.push({
+                title: file.basename,
+                content,
+                headings: options.folderHeadings?.get(file)
+            });
+        }
+        return options.byHeading ? buildMergedByHeading(parts, options.byHeading, format) : buildMergedContent(parts, format);
+    }
+
+    // Layout links into the output are written for: grouped output has no note titles to point at
+    mergeLinkFormat(options: MergeOptions): MergeFormatOptions {
+        const format = options.format ?? this.settings.mergeFormat;
+        return options.byHeading ? Object.assign({}, format, { insertTitles: false }) : format;
+    }
+
+    embedOptions(hostPath: string): EmbedOptions {
+        return { maxDepth: this.settings.embedDepth, attachments: this.settings.embedAttachments, hostPath };
+    }
+
+    // Heading inside the merged output that stands in for a link into one of the merged notes.
+    // Returns null when the linked heading does not exist in that note, and for links to a whole
+    // note in grouped output, where no single place holds the note.
+    mergedSubpath(target: TFile, subpath: string, format: MergeFormatOptions, byHeading = false): string | null {
+        const name = subpathName(subpath);
+        const isBlock = name.startsWith("^");
+        const headings = this.app.metadataCache.getFileCache(target)?.headings ?? [];
+
+        if (name.length > 0 && !isBlock && !headings.some(h => h.heading.toLowerCase() === name.toLowerCase())) {
+            return null;
+        }
+
+        if (name.length > 0) {
+            // Note titles make heading paths unambiguous when notes share heading names
+            return format.insertTitles && !isBlock ? `#${target.basename}${subpath}` : subpath;
+        }
+        if (byHeading) return null;
+        if (format.insertTitles) return `#${target.basename}`;
+        return headings.length > 0 ? `#${headings[0].heading}` : "";
+    }
+
+    // Points links between merged notes at headings inside the output, and re-resolves
+    // other links from the output's location. Links that resolve nowhere are collected.
+    rewriteMergeLinks(content: string, file: TFile, mergedFiles: TFile[], outputPath: string, format: MergeFormatOptions, unresolved: string[], byHeading = false): string {
+        const cache = this.app.metadataCache;
+        const outputName = outputPath.split("/").pop().replace(/\.md$/, "");
+
+        return rewriteLinks(content, (link, embed, wikilink) => {
+            const target = link.path === "" ? file : cache.getFirstLinkpathDest(link.path, file.path);
+            if (!target) {
+                unresolved.push(`${file.basename}: ${link.path}${link.subpath}`);
+                return null;
+            }
+
+            if (!embed && mergedFiles.includes(target)) {
+                const subpath = this.mergedSubpath(target, link.subpath, format, byHeading);
+                if (subpath === null) {
+                    unresolved.push(`${file.basename}: ${link.path}${link.subpath}`);
+                    return null;
+                }
+                return { path: subpath.length > 0 ? "" : outputName, subpath };
+            }
+
+            if (link.path === "" || cache.getFirstLinkpathDest(link.path, outputPath) === target) return null;
+            return { path: cache.fileToLinktext(target, outputPath, wikilink), subpath: link.subpath };
+        });
+    }
+
+    // Each step is added to the journal as soon as it is done, so a merge that fails halfway
+    // can still be undone as far as it got
+    async applyPostMergeActions(output: TFile, written: string, sources: TFile[], format: MergeFormatOptions, postMerge: PostMergeOptions, byHeading: boolean, previousContent?: string) {
+        const entry: MergeJournalEntry = {
+            timestamp: Date.now(),
+            outputPath: output.path,
+            outputHash: hashContent(written),
+            overwritten: previousContent,
+            moved: [],
+            trashed: [],
+            relinked: []
+        };
+
+        try {
+            if (postMerge.redirectBacklinks) {
+                await this.redirectBacklinks(sources, output, format, entry.relinked, byHeading);
+            }
+
+            if (postMerge.action === "archive") {
+                const archiveFolder = normalizePath(postMerge.archiveFolder.trim() || "Archive");
+                await this.ensureFolder(archiveFolder);
+                for (const file of sources) {
+                    const from = file.path;
+                    const to = this.availablePath(archiveFolder, file.basename);
+                    await this.app.fileManager.renameFile(file, to);
+                    entry.moved.push({ from, to });
+                }
+            } else if (postMerge.action === "trash") {
+                for (const file of sources) {
+                    // Contents are kept in the journal so undo works whatever the trash setting
+                    const content = await this.app.vault.read(file);
+                    await this.app.vault.trash(file, true);
+                    entry.trashed.push({ path: file.path, content });
+                }
+            }
+        } finally {
+            this.settings.mergeJournal = [...this.settings.mergeJournal, entry].slice(-MERGE_JOURNAL_LIMIT);
+            await this.saveData(this.settings);
+        }
+    }
+
+    // Points links to the source notes at the merged note, adding each changed note and its link edits to relinked
+    async redirectBacklinks(sources: TFile[], output: TFile, format: MergeFormatOptions, relinked: MergeJournalEntry["relinked"], byHeading = false) {
+        const sourcePaths = new Set(sources.map(file => file.path));
+        const resolvedLinks = this.app.metadataCache.resolvedLinks;
+
+        for (const path of Object.keys(resolvedLinks)) {
+            if (sourcePaths.has(path) || path === output.path) continue;
+            if (!Object.keys(resolvedLinks[path]).some(dest => sourcePaths.has(dest))) continue;
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) continue;
+
+            const content = await this.app.vault.read(file);
+            const edits: LinkEdit[] = [];
+            const rewritten = rewriteLinks(content, (link, embed, wikilink) => {
+                const target = this.app.metadataCache.getFirstLinkpathDest(link.path, file.path);
+                if (!target || !sourcePaths.has(target.path)) return null;
+                const subpath = this.mergedSubpath(target, link.subpath, format, byHeading);
+                if (subpath === null) return null;
+                return { path: this.app.metadataCache.fileToLinktext(output, file.path, wikilink), subpath };
+            }, edits);
+
+            if (rewritten !== content) {
+                await this.app.vault.modify(file, rewritten);
+                relinked.push({ path, hash: hashContent(rewritten), edits });
+            }
+        }
+    }
+
+    // Notes edited since the merge are left as they are; undoing would lose those edits
+    async undoLastMerge() {
+        const entry = this.settings.mergeJournal[this.settings.mergeJournal.length - 1];
+        if (!entry) {
+            new Notice("There is no merge to undo.");
+            return;
+        }
+
+        const skipped: string[] = [];
+        try {
+            for (const { from, to } of entry.moved) {
+                const file = this.app.vault.getAbstractFileByPath(to);
+                if (file instanceof TFile) {
+                    await this.ensureFolder(from.split("/").slice(0, -1).join("/") || "/");
+                    await this.app.fileManager.renameFile(file, from);
+                }
+            }
+
+            for (const { path, content } of entry.trashed) {
+                if (this.app.vault.getAbstractFileByPath(path)) continue;
+                await this.ensureFolder(path.split("/").slice(0, -1).join("/") || "/");
+                await this.app.vault.create(path, content);
+            }
+
+            for (const { path, hash, edits } of entry.relinked) {
+                const file = this.app.vault.getAbstractFileByPath(path);
+                if (!(file instanceof TFile)) continue;
+                let unchanged = true;
+                await this.app.vault.process(file, (content) => {
+                    unchanged = hashContent(content) === hash;
+                    return unchanged ? revertLinkEdits(content, edits) : content;
+                });
+                if (!unchanged) skipped.push(path);
+            }
+
+            const output = this.app.vault.getAbstractFileByPath(entry.outputPath);
+            if (output instanceof TFile) {
+                if (hashContent(await this.app.vault.read(output)) !== entry.outputHash) {
+                    skipped.push(entry.outputPath);
+                } else if (entry.overwritten !== undefined) {
+                    await this.app.vault.modify(output, entry.overwritten);
+                } else {
+                    await this.app.vault.trash(output, true);
+                }
+            }
+        } catch (error) {
+            console.error("Error undoing merge:", error);
+            new Notice("Failed to undo merge. See console for details.");
+            return;
         }
+
+        this.settings.mergeJournal = this.settings.mergeJournal.slice(0, -1);
+        await this.saveData(this.settings);
+        let message = `Undid merge into ${entry.outputPath.split('/').pop()}`;
+        if (skipped.length > 0) {
+            message += `\n\nLeft ${skipped.length} notes edited since the merge unchanged:\n${skipped.join("\n")}`;
+            console.warn("Notes edited since the merge were not restored:", skipped);
+        }
+        new Notice(message, skipped.length > 0 ? 10000 : undefined);
     }
 
     onunload() {
+        this.liveCompilations?.unload();
         document.body.removeClass("select-section-always-show");
     }
 
     async loadSettings() {
         this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        this.settings.mergeFormat = Object.assign({}, DEFAULT_MERGE_FORMAT, this.settings.mergeFormat);
+        this.settings.badgeMetrics = Object.assign({}, DEFAULT_SETTINGS.badgeMetrics, this.settings.badgeMetrics);
+        this.settings.postMerge = Object.assign({}, DEFAULT_POST_MERGE, this.settings.postMerge);
+        this.settings.mergePresets.forEach(preset => {
+            preset.format = Object.assign({}, DEFAULT_MERGE_FORMAT, preset.format);
+        });
     }
 
     async saveSettings() {
+        this.settingsVersion++;
         await this.saveData(this.settings);
         this.refreshBodyClass();
         // Trigger a refresh of the views to apply setting changes
@@ -161,11 +858,41 @@ export default class SelectSectionPlugin extends Plugin {
             document.body.removeClass("select-section-show-copy");
         }
 
+        if (this.settings.showCollectButton) {
+            document.body.addClass("select-section-show-collect");
+        } else {
+            document.body.removeClass("select-section-show-collect");
+        }
+
+        if (this.settings.showLinkButton) {
+            document.body.addClass("select-section-show-link");
+        } else {
+            document.body.removeClass("select-section-show-link");
+        }
+
         if (this.settings.showSelectHeaderButton) {
             document.body.addClass("select-section-show-select-header");
         } else {
             document.body.removeClass("select-section-show-select-header");
         }
+
+        if (this.settings.showMoveButtons) {
+            document.body.addClass("select-section-show-move");
+        } else {
+            document.body.removeClass("select-section-show-move");
+        }
+
+        if (this.settings.showLevelButtons) {
+            document.body.addClass("select-section-show-level");
+        } else {
+            document.body.removeClass("select-section-show-level");
+        }
+
+        if (this.settings.showExtractButton) {
+            document.body.addClass("select-section-show-extract");
+        } else {
+            document.body.removeClass("select-section-show-extract");
+        }
     }
 
     addIconsToHeader(header: HTMLElement, context: MarkdownPostProcessorContext) {
@@ -195,16 +922,75 @@ export default class SelectSectionPlugin extends Plugin {
             actionsContainer.classList.toggle("show");
         };
 
-        // Close when clicking outside
-        document.addEventListener("click", (e) => {
-            if (!container.contains(e.target as Node)) {
-                actionsContainer.removeClass("show");
-            }
-        });
-
         this.createActionButtons(actionsContainer, header, context);
 
         header.appendChild(container);
+
+        if (this.settings.showBadges) {
+            this.addBadgeToHeader(header, context).catch(error => console.error("Error adding section badge:", error));
+        }
+    }
+
+    async addBadgeToHeader(header: HTMLElement, context: MarkdownPostProcessorContext) {
+        const file = this.app.vault.getAbstractFileByPath(context.sourcePath);
+        const info = context.getSectionInfo(header);
+        let index: { source: LineSource, sections: SectionRange[] };
+        if (file instanceof TFile && file.extension === "md") {
+            index = await this.badgeIndex(file, header);
+        } else if (info) {
+            const text = linesOf(info.text);
+            index = { source: text, sections: buildSectionIndex(text) };
+        } else {
+            return;
+        }
+
+        const { source, sections } = index;
+        if (header.querySelector(".select-section-badge")) return;
+        const title = header.getAttribute("data-heading") ?? header.textContent?.trim();
+        const section = info && info.lineStart < source.lineCount() && source.getLine(info.lineStart) === info.text.split("\n")[info.lineStart]
+            ? findSectionByHeading(sections, info.lineStart)
+            : sections.find(s => s.title === title);
+        if (!section) return;
+
+        const stats = sectionStats(source, sections, sections.indexOf(section), this.settings.badgeIncludeChildren);
+        const badge = this.sectionBadge(stats, section.level);
+        if (badge) renderSectionBadge(header, badge);
+    }
+
+    // Every header of a note is post-processed on its own, so the note is read and indexed once
+    // for all of them and dropped shortly after, when the render is done
+    badgeIndex(file: TFile, header: HTMLElement): Promise<{ source: LineSource, sections: SectionRange[] }> {
+        let index = this.badgeIndexes.get(file.path);
+        if (!index) {
+            index = (async () => {
+                // An open editor may hold changes that are not saved yet
+                const editor = this.markdownViewFor(file, header)?.editor;
+                const source = linesOf(editor ? editor.getValue() : await this.app.vault.cachedRead(file));
+                return { source, sections: buildSectionIndex(source) };
+            })();
+            this.badgeIndexes.set(file.path, index);
+            window.setTimeout(() => this.badgeIndexes.delete(file.path), 1000);
+        }
+        return index;
+    }
+
+    // Badge text for a section, or null when no metric has anything to show
+    sectionBadge(stats: SectionStats, level: number): SectionBadge | null {
+        const metrics = this.settings.badgeMetrics;
+        const parts: string[] = [];
+        if (metrics.words) parts.push(`${stats.words.toLocaleString()} words`);
+        if (metrics.characters) parts.push(`${stats.characters.toLocaleString()} chars`);
+        if (metrics.readingTime) parts.push(`${readingMinutes(stats.words, this.settings.readingSpeed)} min`);
+        if (metrics.tasks && stats.tasksTotal > 0) parts.push(`${stats.tasksDone}/${stats.tasksTotal} tasks`);
+        if (parts.length === 0) return null;
+
+        const limit = this.settings.sectionWordLimits[level - 1] ?? 0;
+        const overLimit = limit > 0 && stats.words > limit;
+        return {
+            text: parts.join(" · "),
+            tooltip: overLimit ? `${stats.words - limit} words over the ${limit} word limit for H${level} sections` : "",
+            overLimit
+        };
     }
 
     createActionButtons(container: HTMLElement, header: HTMLElement, context: MarkdownPostProcessorContext) {
@@ -214,7 +1000,7 @@ export default class SelectSectionPlugin extends Plugin {
         selectBtn.ariaLabel = "Select and Copy Section";
         selectBtn.onclick = (e) => {
             e.stopPropagation();
-            this.handleSelect(header, context);
+            this.handleSelect(header);
         };
 
         const copyBtn = container.createSpan({ cls: "select-section-btn select-section-btn-copy" });
@@ -224,357 +1010,2614 @@ export default class SelectSectionPlugin extends Plugin {
             e.stopPropagation();
             this.handleCopy(header, context);
         };
+        copyBtn.oncontextmenu = (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            this.showCopyFormatMenu(e, (format, withContext) => this.handleCopy(header, context, format, withContext));
+        };
+
+        const collectBtn = container.createSpan({ cls: "select-section-btn select-section-btn-collect" });
+        setIcon(collectBtn, "list-plus");
+        collectBtn.ariaLabel = "Add to Collection";
+        collectBtn.onclick = (e) => {
+            e.stopPropagation();
+            this.handleCollect(header, context);
+        };
+
+        const linkBtn = container.createSpan({ cls: "select-section-btn select-section-btn-link" });
+        setIcon(linkBtn, "link");
+        linkBtn.ariaLabel = "Copy Link to Section";
+        linkBtn.onclick = (e) => {
+            e.stopPropagation();
+            this.handleCopyLink(header, context, "link");
+        };
+        linkBtn.oncontextmenu = (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            this.showLinkKindMenu(e, (kind) => this.handleCopyLink(header, context, kind));
+        };
 
         const selectHeaderBtn = container.createSpan({ cls: "select-section-btn select-section-btn-select-header" });
         setIcon(selectHeaderBtn, "heading");
         selectHeaderBtn.ariaLabel = "Select Header Title Only";
         selectHeaderBtn.onclick = (e) => {
             e.stopPropagation();
-            this.handleSelectHeader(header, context);
+            this.handleSelectHeader(header);
         };
+
+        this.createRestructureButtons(container, (action) => this.handleEditorAction(header, context, action));
+
+        this.createCustomActionButtons(container, Number(header.tagName.substring(1)), (action) => this.handleCustomAction(header, context, action));
+        this.orderActionButtons(container);
     }
 
-    // Logic for Reading View Selection/Copy
-    handleSelectHeader(header: HTMLElement, context: MarkdownPostProcessorContext) {
-        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-        if (view) {
-            const sectionInfo = context.getSectionInfo(header);
-            if (sectionInfo) {
-                this.selectHeaderOnly(view.editor, sectionInfo.lineStart);
-            }
-        }
+    // Buttons for the user's own actions that apply to headings of this level, in their configured order
+    createCustomActionButtons(container: HTMLElement, level: number, run: (action: CustomAction) => void) {
+        this.settings.customActions
+            .filter(action => actionAppliesTo(action, level))
+            .forEach(action => {
+                const btn = container.createSpan({ cls: "select-section-btn select-section-btn-custom" });
+                btn.dataset.action = `custom-${action.id}`;
+                setIcon(btn, action.icon || "wand");
+                btn.ariaLabel = action.name;
+                btn.onclick = (e) => {
+                    e.stopPropagation();
+                    run(action);
+                };
+            });
     }
-    handleSelect(header: HTMLElement, context: MarkdownPostProcessorContext) {
-        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-        if (view) {
-            const sectionInfo = context.getSectionInfo(header);
-            if (sectionInfo) {
-                this.selectOrCopySection(view.editor, sectionInfo.lineStart, true);
-            }
-        }
+
+    // Every button, built-in or custom, in the order set in the settings. Buttons missing from
+    // that order, such as newly added actions, keep their place next to their neighbours.
+    buttonOrder(): string[] {
+        const order = this.settings.buttonOrder.filter(key => key in BUILT_IN_BUTTONS
+            || this.settings.customActions.some(action => `custom-${action.id}` === key));
+        const all = [...Object.keys(BUILT_IN_BUTTONS), ...this.settings.customActions.map(action => `custom-${action.id}`)];
+        all.forEach((key, index) => {
+            if (order.includes(key)) return;
+            const previous = all.slice(0, index).reverse().find(other => order.includes(other));
+            order.splice(previous ? order.indexOf(previous) + 1 : 0, 0, key);
+        });
+        return order;
     }
 
-    handleCopy(header: HTMLElement, context: MarkdownPostProcessorContext) {
-        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-        if (view) {
-            const sectionInfo = context.getSectionInfo(header);
-            if (sectionInfo) {
-                this.selectOrCopySection(view.editor, sectionInfo.lineStart, false, true);
-            }
-        }
+    orderActionButtons(container: HTMLElement) {
+        const buttons = Array.from(container.children) as HTMLElement[];
+        this.buttonOrder().forEach(key => {
+            const button = buttons.find(btn => btn.dataset.action === key || btn.hasClass(`select-section-btn-${key}`));
+            if (button) container.appendChild(button);
+        });
     }
 
-    // Core Logic for Selection/Copy
-    selectOrCopySection(editor: Editor, headerLine: number, select: boolean, copy: boolean = false) {
-        const lineCount = editor.lineCount();
-        const headerText = editor.getLine(headerLine);
+    async handleCustomAction(header: HTMLElement, context: MarkdownPostProcessorContext, action: CustomAction) {
+        const rendered = await this.renderedSection(header, context);
+        if (!rendered) return;
+        const editor = rendered.file ? this.markdownViewFor(rendered.file, header)?.editor : undefined;
+        await this.runCustomAction(action, rendered.source, rendered.headerLine, rendered.file?.path ?? context.sourcePath, editor);
+    }
 
-        // Determine header level
-        const match = headerText.match(/^(#+)\s/);
-        if (!match) return;
-        const level = match[1].length;
+    addCustomActionCommand(action: CustomAction) {
+        this.addCommand({
+            id: `custom-action-${action.id}`,
+            name: `Run action: ${action.name}`,
+            editorCheckCallback: (checking: boolean, editor: Editor, ctx) => {
+                // Without removeCommand, deleted actions keep their command until the plugin reloads
+                const current = this.settings.customActions.find(a => a.id === action.id);
+                if (!current || !ctx.file) return false;
+                const section = findSectionAt(buildSectionIndex(editor), editor.getCursor().line);
+                if (!section || !actionAppliesTo(current, section.level)) return false;
+                if (!checking) this.runCustomAction(current, editor, section.headingLine, ctx.file.path, editor);
+                return true;
+            }
+        });
+    }
 
-        let endLine = lineCount - 1;
+    removeCustomActionCommand(action: CustomAction) {
+        // Available since Obsidian 1.7.2
+        if (typeof this.removeCommand === "function") this.removeCommand(`custom-action-${action.id}`);
+    }
 
-        // Find next header of same or higher level
-        for (let i = headerLine + 1; i < lineCount; i++) {
-            const line = editor.getLine(i);
-            const nextMatch = line.match(/^(#+)\s/);
-            if (nextMatch) {
-                const nextLevel = nextMatch[1].length;
-                if (nextLevel <= level) {
-                    endLine = i - 1;
-                    break;
+    // Section changes go through the editor so they can be undone; appending only reads the section
+    async runCustomAction(action: CustomAction, source: LineSource, headerLine: number, sourcePath: string, editor?: Editor) {
+        const section = findSectionByHeading(buildSectionIndex(source), headerLine);
+        if (!section) return;
+        if (!actionAppliesTo(action, section.level)) {
+            new Notice(`"${action.name}" does not apply to H${section.level} headers.`);
+            return;
+        }
+
+        let lastLine = section.end;
+        while (lastLine > section.headingLine && source.getLine(lastLine).trim().length === 0) lastLine--;
+
+        if (!rewritesSection(action)) {
+            const lines: string[] = [];
+            for (let i = section.headingLine; i <= lastLine; i++) lines.push(source.getLine(i));
+            await this.appendToNote(action, lines.join("\n"), sourcePath);
+            return;
+        }
+
+        if (!editor) {
+            new Notice(`Open the note to run "${action.name}".`);
+            return;
+        }
+        if (lastLine < section.bodyStart) {
+            new Notice("This section has no content.");
+            return;
+        }
+
+        const from = { line: section.bodyStart, ch: 0 };
+        const to = { line: lastLine, ch: editor.getLine(lastLine).length };
+        const body = editor.getRange(from, to);
+        let text: string;
+        try {
+            text = this.transformSection(action, body, section.title);
+        } catch (error) {
+            console.error(`Error running action "${action.name}":`, error);
+            new Notice(`"${action.name}" failed: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+        if (text !== body) editor.transaction({ changes: [{ from, to, text }] });
+    }
+
+    transformSection(action: CustomAction, body: string, heading: string): string {
+        // Leading blank lines stay between the heading and the transformed text
+        const leading = body.match(/^(\s*\n)*/)[0];
+        const content = body.slice(leading.length);
+        switch (action.transform) {
+            case "callout":
+                return leading + wrapInCallout(content, action.calloutType, action.calloutTitle.replace(/{{heading}}/g, heading));
+            case "blockquote":
+                return leading + toBlockquote(content);
+            case "sort-list":
+                return leading + sortListItems(content, action.sortDescending);
+            case "regex":
+                return regexReplace(body, action.pattern, action.replacement, action.flags);
+            default:
+                return body;
+        }
+    }
+
+    async appendToNote(action: CustomAction, text: string, sourcePath: string) {
+        let path: string;
+        if (action.transform === "append-daily") {
+            path = this.dailyNotePath();
+        } else {
+            const name = action.targetNote.trim();
+            if (!name) {
+                new Notice(`Choose a note for "${action.name}" in the settings.`);
+                return;
+            }
+            // Resolve like a link, so a bare note name works as well as a full path
+            const linked = this.app.metadataCache.getFirstLinkpathDest(name.replace(/\.md$/, ""), sourcePath);
+            path = linked ? linked.path : normalizePath(name.endsWith(".md") ? name : `${name}.md`);
+        }
+
+        try {
+            const existing = this.app.vault.getAbstractFileByPath(path);
+            if (existing instanceof TFile) {
+                await this.app.vault.process(existing, (data) => data.trimEnd().length > 0 ? `${data.trimEnd()}\n\n${text}\n` : `${text}\n`);
+            } else {
+                const folder = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "/";
+                await this.ensureFolder(folder);
+                await this.app.vault.create(path, `${text}\n`);
+            }
+            new Notice(`Appended section to ${path.split("/").pop().replace(/\.md$/, "")}`);
+        } catch (error) {
+            console.error("Error appending section:", error);
+            new Notice("Failed to append section. See console for details.");
+        }
+    }
+
+    // Today's note as the core Daily Notes plugin would name it
+    dailyNotePath(): string {
+        const internal = (this.app as unknown as { internalPlugins?: { getPluginById(id: string): { instance?: { options?: { folder?: string, format?: string } } } | null } }).internalPlugins;
+        const options = internal?.getPluginById("daily-notes")?.instance?.options ?? {};
+        const name = moment().format(options.format || "YYYY-MM-DD");
+        return normalizePath(`${options.folder?.trim() || "/"}/${name}.md`);
+    }
+
+    // Buttons for moving, re-levelling and extracting sections, shared by Live Preview and Reading View
+    createRestructureButtons(container: HTMLElement, withEditor: (action: (editor: Editor, headerLine: number, file: TFile) => void) => void) {
+        const buttons: [string, string, string, (editor: Editor, headerLine: number, file: TFile) => void][] = [
+            ["select-section-btn-move-up", "arrow-up", "Move Section Up", (editor, line) => this.moveSection(editor, line, -1)],
+            ["select-section-btn-move-down", "arrow-down", "Move Section Down", (editor, line) => this.moveSection(editor, line, 1)],
+            ["select-section-btn-promote", "arrow-left", "Promote Section", (editor, line) => this.shiftSectionLevel(editor, line, -1)],
+            ["select-section-btn-demote", "arrow-right", "Demote Section", (editor, line) => this.shiftSectionLevel(editor, line, 1)],
+            ["select-section-btn-extract", "file-output", "Extract Section", (editor, line, file) => this.extractSection(editor, line, file)]
+        ];
+
+        buttons.forEach(([cls, icon, label, action]) => {
+            const btn = container.createSpan({ cls: `select-section-btn ${cls}` });
+            setIcon(btn, icon);
+            btn.ariaLabel = label;
+            btn.onclick = (e) => {
+                e.stopPropagation();
+                withEditor(action);
+            };
+        });
+    }
+
+    // Reading View actions work on the note that owns the rendered header, which need not be
+    // the active one: other splits, embeds, hover popovers and canvas cards render headers too.
+
+    // Note, text and header line behind a rendered header. The file is null for text that
+    // belongs to no note, such as a canvas text card.
+    async renderedSection(header: HTMLElement, context: MarkdownPostProcessorContext): Promise<{ file: TFile | null, source: LineSource, headerLine: number } | null> {
+        const info = context.getSectionInfo(header);
+        const file = this.app.vault.getAbstractFileByPath(context.sourcePath);
+
+        if (file instanceof TFile && file.extension === "md") {
+            // An open editor may hold changes that are not saved yet
+            const source = this.markdownViewFor(file, header)?.editor ?? linesOf(await this.app.vault.cachedRead(file));
+            if (info && info.lineStart < source.lineCount() && source.getLine(info.lineStart) === info.text.split("\n")[info.lineStart]) {
+                return { file, source, headerLine: info.lineStart };
+            }
+            // Embeds and popovers render only part of the note, so find the header by name
+            const title = header.getAttribute("data-heading") ?? header.textContent?.trim();
+            const section = buildSectionIndex(source).find(s => s.title === title);
+            if (section) return { file, source, headerLine: section.headingLine };
+        }
+
+        if (info) return { file: null, source: linesOf(info.text), headerLine: info.lineStart };
+        return null;
+    }
+
+    // The pane that rendered the header, or any pane showing the file
+    markdownViewFor(file: TFile, header: HTMLElement): MarkdownView | null {
+        const views = this.app.workspace.getLeavesOfType("markdown")
+            .map(leaf => leaf.view)
+            .filter((view): view is MarkdownView => view instanceof MarkdownView && view.file?.path === file.path);
+        return views.find(view => view.containerEl.contains(header)) ?? views[0] ?? null;
+    }
+
+    handleSelectHeader(header: HTMLElement) {
+        const range = header.doc.createRange();
+        range.selectNodeContents(header);
+        const buttons = header.querySelector(".select-section-container");
+        if (buttons) range.setEndBefore(buttons);
+        this.selectDomRange(header, range);
+    }
+
+    // Highlights the rendered blocks from the header to the next header of the same or a higher level
+    handleSelect(header: HTMLElement) {
+        const level = Number(header.tagName.substring(1));
+        const stopAt = [1, 2, 3, 4, 5, 6].filter(l => l <= level).map(l => `h${l}`).join(", ");
+
+        // Reading View wraps every block in its own element, plain rendered output does not
+        const parent = header.parentElement;
+        const block = parent && parent.children.length === 1 && Array.from(parent.classList).some(c => c.startsWith("el-")) ? parent : header;
+
+        let last: Element = block;
+        for (let next = block.nextElementSibling; next; next = next.nextElementSibling) {
+            if (next.matches(stopAt) || next.querySelector(`:scope > :is(${stopAt})`)) break;
+            if (next.hasClass("mod-footer")) break;
+            last = next;
+        }
+
+        if (!this.settings.includeHeader && last === block) return;
+
+        const range = header.doc.createRange();
+        if (this.settings.includeHeader) {
+            range.setStartBefore(block);
+        } else {
+            range.setStartAfter(block);
+        }
+        range.setEndAfter(last);
+        this.selectDomRange(header, range);
+    }
+
+    selectDomRange(header: HTMLElement, range: Range) {
+        const selection = header.win.getSelection();
+        if (!selection) return;
+        selection.removeAllRanges();
+        selection.addRange(range);
+    }
+
+    async handleCopy(header: HTMLElement, context: MarkdownPostProcessorContext, format?: CopyFormat, withContext = this.settings.copyContext) {
+        const rendered = await this.renderedSection(header, context);
+        if (!rendered) return;
+        await this.copySection(rendered.source, rendered.headerLine, rendered.file?.path ?? context.sourcePath, format ?? this.settings.copyFormat, withContext);
+    }
+
+    async handleCollect(header: HTMLElement, context: MarkdownPostProcessorContext) {
+        const rendered = await this.renderedSection(header, context);
+        if (rendered) {
+            await this.addSectionToCollection(rendered.file?.path ?? context.sourcePath, rendered.source, rendered.headerLine);
+        }
+    }
+
+    async handleCopyLink(header: HTMLElement, context: MarkdownPostProcessorContext, kind: SectionLinkKind) {
+        const rendered = await this.renderedSection(header, context);
+        if (!rendered) return;
+        if (!rendered.file) {
+            new Notice("Only sections in notes can be linked to.");
+            return;
+        }
+        await this.copySectionLink(rendered.file, rendered.source, rendered.headerLine, kind, this.markdownViewFor(rendered.file, header)?.editor);
+    }
+
+    // Restructuring changes the note through the editor of a pane that shows it
+    async handleEditorAction(header: HTMLElement, context: MarkdownPostProcessorContext, action: (editor: Editor, headerLine: number, file: TFile) => void) {
+        const rendered = await this.renderedSection(header, context);
+        if (!rendered) return;
+        const view = rendered.file ? this.markdownViewFor(rendered.file, header) : null;
+        if (!view) {
+            new Notice(rendered.file ? `Open ${rendered.file.basename} to change its sections.` : "Only sections in notes can be changed.");
+            return;
+        }
+        action(view.editor, rendered.headerLine, rendered.file);
+    }
+
+    // Editor commands acting on the section that contains the cursor
+    addSectionCommands() {
+        this.addCommand({
+            id: "select-section",
+            name: "Select section at cursor",
+            editorCallback: (editor: Editor) => {
+                const section = this.sectionAtCursor(editor);
+                if (section) this.selectOrCopySection(editor, section.headingLine, true);
+            }
+        });
+
+        this.addCommand({
+            id: "copy-section",
+            name: "Copy section at cursor",
+            editorCallback: (editor: Editor) => {
+                const section = this.sectionAtCursor(editor);
+                if (section) this.selectOrCopySection(editor, section.headingLine, false, true);
+            }
+        });
+
+        this.addCommand({
+            id: "copy-section-with-context",
+            name: "Copy section at cursor with context",
+            editorCallback: async (editor: Editor, ctx) => {
+                const section = this.sectionAtCursor(editor);
+                if (section) await this.copySection(editor, section.headingLine, ctx.file?.path ?? "", this.settings.copyFormat, true);
+            }
+        });
+
+        (Object.keys(COPY_FORMAT_LABELS) as CopyFormat[]).forEach((format) => {
+            this.addCommand({
+                id: `copy-section-as-${format}`,
+                name: `Copy section at cursor as ${COPY_FORMAT_LABELS[format]}`,
+                editorCallback: (editor: Editor) => {
+                    const section = this.sectionAtCursor(editor);
+                    if (section) this.selectOrCopySection(editor, section.headingLine, false, true, format);
+                }
+            });
+        });
+
+        (Object.keys(SECTION_LINK_LABELS) as SectionLinkKind[]).forEach((kind) => {
+            this.addCommand({
+                id: `copy-section-link-${kind}`,
+                name: `Copy section at cursor as ${SECTION_LINK_LABELS[kind]}`,
+                editorCallback: (editor: Editor, ctx) => {
+                    const section = this.sectionAtCursor(editor);
+                    if (section && ctx.file) this.copySectionLink(ctx.file, editor, section.headingLine, kind, editor);
+                }
+            });
+        });
+
+        this.addCommand({
+            id: "copy-selected-sections",
+            name: "Copy selected sections",
+            editorCallback: async (editor: Editor) => {
+                await this.copySelectedSections(editor);
+            }
+        });
+
+        this.addCommand({
+            id: "delete-selected-sections",
+            name: "Delete selected sections",
+            editorCallback: (editor: Editor) => {
+                this.deleteSelectedSections(editor);
+            }
+        });
+
+        this.addCommand({
+            id: "move-selected-sections",
+            name: "Move selected sections to another note",
+            editorCallback: (editor: Editor, ctx) => {
+                const source = ctx.file;
+                if (!source) return;
+                new NoteSuggestModal(this.app, "Move sections to...", (target) => this.moveSelectedSections(editor, source, target)).open();
+            }
+        });
+
+        this.addCommand({
+            id: "select-section-header",
+            name: "Select header title of section at cursor",
+            editorCallback: (editor: Editor) => {
+                const section = this.sectionAtCursor(editor);
+                if (section) this.selectHeaderOnly(editor, section.headingLine);
+            }
+        });
+
+        this.addCommand({
+            id: "select-parent-section",
+            name: "Select parent section",
+            editorCallback: (editor: Editor) => {
+                const sections = buildSectionIndex(editor);
+                const section = findSectionAt(sections, editor.getCursor().line);
+                if (!section) return;
+                if (section.parent === -1) {
+                    new Notice("This section has no parent section.");
+                    return;
                 }
+                this.selectOrCopySection(editor, sections[section.parent].headingLine, true);
+            }
+        });
+
+        this.addCommand({
+            id: "move-section-up",
+            name: "Move section up",
+            editorCallback: (editor: Editor) => {
+                const section = this.sectionAtCursor(editor);
+                if (section) this.moveSection(editor, section.headingLine, -1);
+            }
+        });
+
+        this.addCommand({
+            id: "move-section-down",
+            name: "Move section down",
+            editorCallback: (editor: Editor) => {
+                const section = this.sectionAtCursor(editor);
+                if (section) this.moveSection(editor, section.headingLine, 1);
+            }
+        });
+
+        this.addCommand({
+            id: "promote-section",
+            name: "Promote section with its subsections",
+            editorCallback: (editor: Editor) => {
+                const section = this.sectionAtCursor(editor);
+                if (section) this.shiftSectionLevel(editor, section.headingLine, -1);
+            }
+        });
+
+        this.addCommand({
+            id: "demote-section",
+            name: "Demote section with its subsections",
+            editorCallback: (editor: Editor) => {
+                const section = this.sectionAtCursor(editor);
+                if (section) this.shiftSectionLevel(editor, section.headingLine, 1);
+            }
+        });
+
+        this.addCommand({
+            id: "add-section-to-collection",
+            name: "Add section at cursor to collection",
+            editorCallback: async (editor: Editor, ctx) => {
+                const section = this.sectionAtCursor(editor);
+                if (section && ctx.file) await this.addSectionToCollection(ctx.file.path, editor, section.headingLine);
+            }
+        });
+
+        this.addCommand({
+            id: "extract-section",
+            name: "Extract section into new note",
+            editorCallback: async (editor: Editor, ctx) => {
+                const section = this.sectionAtCursor(editor);
+                if (section && ctx.file) await this.extractSection(editor, section.headingLine, ctx.file);
+            }
+        });
+
+        this.addCommand({
+            id: "expand-section-selection",
+            name: "Expand selection to enclosing section",
+            editorCallback: (editor: Editor) => {
+                this.expandSelection(editor);
             }
+        });
+    }
+
+    sectionAtCursor(editor: Editor): SectionRange | null {
+        const section = findSectionAt(buildSectionIndex(editor), editor.getCursor().line);
+        if (!section) {
+            new Notice("The cursor is not inside a section.");
         }
+        return section;
+    }
 
-        let startLine = headerLine;
+    // Range covered by a section, honouring the includeHeader setting
+    getSectionRange(editor: Editor, section: SectionRange): { from: EditorPosition, to: EditorPosition } | null {
+        let startLine = section.headingLine;
         if (!this.settings.includeHeader) {
-            startLine++;
+            startLine = section.bodyStart;
         }
+        const endLine = section.end;
 
         // Adjust endLine to exclude trailing empty lines if desired, but standard behavior usually includes them until next section.
 
         if (startLine > endLine) {
-            // Empty section or header only
-            if (this.settings.includeHeader) {
-                endLine = startLine;
-            } else {
-                return; // Nothing to select
+            // Header only, nothing to select without it
+            return null;
+        }
+
+        return {
+            from: { line: startLine, ch: 0 },
+            to: { line: endLine, ch: editor.getLine(endLine).length }
+        };
+    }
+
+    // Each call grows the selection to the next enclosing heading level
+    expandSelection(editor: Editor) {
+        const sections = buildSectionIndex(editor);
+        const from = editor.getCursor("from");
+        const to = editor.getCursor("to");
+        const covers = (range: { from: EditorPosition, to: EditorPosition }) =>
+            (range.from.line < from.line || (range.from.line === from.line && range.from.ch <= from.ch)) &&
+            (range.to.line > to.line || (range.to.line === to.line && range.to.ch >= to.ch));
+        const isSelected = (range: { from: EditorPosition, to: EditorPosition }) =>
+            range.from.line === from.line && range.from.ch === from.ch &&
+            range.to.line === to.line && range.to.ch === to.ch;
+
+        let section = findSectionAt(sections, from.line);
+        while (section) {
+            const range = this.getSectionRange(editor, section);
+            if (range && covers(range) && !isSelected(range)) {
+                editor.setSelection(range.from, range.to);
+                editor.scrollIntoView(range);
+                return;
+            }
+            section = section.parent === -1 ? null : sections[section.parent];
+        }
+        new Notice("Already at the outermost section.");
+    }
+
+    moveSection(editor: Editor, headerLine: number, direction: -1 | 1) {
+        const sections = buildSectionIndex(editor);
+        const section = findSectionByHeading(sections, headerLine);
+        if (!section) return;
+
+        const edit = moveSection(editor, sections, sections.indexOf(section), direction);
+        if (!edit) {
+            new Notice(direction === -1 ? "No section above to move past." : "No section below to move past.");
+            return;
+        }
+        this.applyLineEdit(editor, edit);
+    }
+
+    shiftSectionLevel(editor: Editor, headerLine: number, delta: number) {
+        const sections = buildSectionIndex(editor);
+        const section = findSectionByHeading(sections, headerLine);
+        if (!section) return;
+
+        const edit = shiftSectionLevels(editor, sections, sections.indexOf(section), delta);
+        if (!edit) {
+            new Notice("Headings can only range from H1 to H6.");
+            return;
+        }
+        this.applyLineEdit(editor, edit);
+    }
+
+    async addSectionToCollection(sourcePath: string, source: LineSource, headerLine: number) {
+        const sections = buildSectionIndex(source);
+        const section = findSectionByHeading(sections, headerLine);
+        if (!section) return;
+        // Same-named siblings have no path of their own; their links find the first of them
+        const path = headingPath(sections, sections.indexOf(section)) ?? [section.title];
+
+        let lastLine = section.end;
+        while (lastLine > section.headingLine && source.getLine(lastLine).trim().length === 0) lastLine--;
+        const lines: string[] = [];
+        for (let i = section.headingLine; i <= lastLine; i++) {
+            lines.push(source.getLine(i));
+        }
+
+        await this.updateCollection([...this.settings.collection, {
+            id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            sourcePath,
+            heading: section.title,
+            subpath: "#" + path.map(linkableHeading).join("#"),
+            content: lines.join("\n"),
+            addedAt: Date.now()
+        }]);
+        new Notice(`Added "${section.title}" to the collection (${this.settings.collection.length} sections).`);
+    }
+
+    async updateCollection(items: CollectionItem[]) {
+        this.settings.collection = items;
+        await this.saveData(this.settings);
+        this.app.workspace.getLeavesOfType(VIEW_TYPE_COLLECTION).forEach(leaf => {
+            if (leaf.view instanceof CollectionView) leaf.view.render();
+        });
+    }
+
+    async activateCollectionView() {
+        let leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_COLLECTION)[0];
+        if (!leaf) {
+            leaf = this.app.workspace.getRightLeaf(false);
+            await leaf.setViewState({ type: VIEW_TYPE_COLLECTION, active: true });
+        }
+        this.app.workspace.revealLeaf(leaf);
+    }
+
+    async activateOutlineView() {
+        let leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_OUTLINE)[0];
+        if (!leaf) {
+            leaf = this.app.workspace.getRightLeaf(false);
+            await leaf.setViewState({ type: VIEW_TYPE_OUTLINE, active: true });
+        }
+        this.app.workspace.revealLeaf(leaf);
+    }
+
+    async copyCollection() {
+        const text = composeCollection(this, this.settings.collection, "", this.settings.collectionSourceLinks);
+        try {
+            await navigator.clipboard.writeText(text);
+            new Notice(`Copied ${this.settings.collection.length} sections to clipboard!`);
+        } catch (error) {
+            console.error("Error copying collection:", error);
+            new Notice("Failed to copy collection. See console for details.");
+        }
+    }
+
+    async createNoteFromCollection() {
+        const folderPath = normalizePath(this.app.fileManager.getNewFileParent("").path);
+        const filePath = this.availablePath(folderPath, "Section collection");
+        const content = composeCollection(this, this.settings.collection, filePath, this.settings.collectionSourceLinks);
+        try {
+            const file = await this.app.vault.create(filePath, content);
+            await this.app.workspace.getLeaf(true).openFile(file);
+        } catch (error) {
+            console.error("Error creating note from collection:", error);
+            new Notice("Failed to create note. See console for details.");
+        }
+    }
+
+    // Moves a section into a new note and leaves a link or embed in its place
+    async extractSection(editor: Editor, headerLine: number, source: TFile) {
+        const sections = buildSectionIndex(editor);
+        const section = findSectionByHeading(sections, headerLine);
+        if (!section) return;
+
+        // Links move along when their heading path resolves inside the extracted sections,
+        // or when their block id is in them. Same-named headings elsewhere stay put.
+        const first = sections.indexOf(section);
+        const last = first + subtreeOf(sections, first).length - 1;
+        let lastLine = section.end;
+        while (lastLine > section.headingLine && editor.getLine(lastLine).trim().length === 0) lastLine--;
+        const from = { line: section.headingLine, ch: 0 };
+        const to = { line: lastLine, ch: editor.getLine(lastLine).length };
+        const sectionText = editor.getRange(from, to);
+        const movedBlocks = new Set((sectionText.match(/\^[\w-]+$/gm) || []).map(id => id.toLowerCase()));
+        const moves = (subpath: string) => {
+            const name = subpathName(subpath);
+            if (name.length === 0) return false;
+            if (name.startsWith("^")) return movedBlocks.has(name.toLowerCase());
+            const index = findSectionByPath(sections, subpath.split("#"));
+            return index >= first && index <= last;
+        };
+
+        const folderPath = normalizePath(this.settings.extractFolder.trim() || source.parent?.path || "/");
+        const baseName = sanitizeFileName(this.settings.extractFileNameTemplate
+            .replace(/{{heading}}/g, section.title)
+            .replace(/{{note}}/g, source.basename)
+            .replace(/{{date}}/g, moment().format("YYYY-MM-DD")));
+        const filePath = this.availablePath(folderPath, baseName);
+
+        const sourceLink = this.app.metadataCache.fileToLinktext(source, filePath, true);
+        // Same-note links to headings left behind must now name the original note
+        const newContent = rewriteLinks(sectionText, (target) =>
+            target.path === "" && !moves(target.subpath) ? { path: sourceLink, subpath: target.subpath } : null);
+
+        let newFile: TFile;
+        try {
+            await this.ensureFolder(folderPath);
+            newFile = await this.app.vault.create(filePath, newContent);
+        } catch (error) {
+            console.error("Error extracting section:", error);
+            new Notice("Failed to extract section. See console for details.");
+            return;
+        }
+
+        const link = this.app.fileManager.generateMarkdownLink(newFile, source.path);
+        const changes: EditorChange[] = [{
+            from,
+            to,
+            text: this.settings.extractLinkStyle === "embed" ? `!${link}` : link
+        }];
+
+        // Same-note links to the extracted headings now point at the new note
+        const newLink = this.app.metadataCache.fileToLinktext(newFile, source.path, true);
+        const retargetSelf = (target: LinkTarget) =>
+            target.path === "" && moves(target.subpath) ? { path: newLink, subpath: target.subpath } : null;
+        for (let i = 0; i < editor.lineCount(); i++) {
+            if (i >= section.headingLine && i <= lastLine) continue;
+            const line = editor.getLine(i);
+            const rewritten = rewriteLinks(line, retargetSelf);
+            if (rewritten !== line) {
+                changes.push({ from: { line: i, ch: 0 }, to: { line: i, ch: line.length }, text: rewritten });
+            }
+        }
+        editor.transaction({ changes });
+
+        const updated = await this.retargetHeadingLinks(source, newFile, moves);
+        new Notice(`Extracted "${section.title}" into ${newFile.basename}` + (updated > 0 ? `, updated links in ${updated} notes.` : "."));
+    }
+
+    // Points links to moved headings of one note at another note, returns the number of notes changed
+    async retargetHeadingLinks(source: TFile, target: TFile, moves: (subpath: string) => boolean): Promise<number> {
+        let updated = 0;
+        const resolvedLinks = this.app.metadataCache.resolvedLinks;
+
+        for (const path of Object.keys(resolvedLinks)) {
+            if (path === source.path || !resolvedLinks[path][source.path]) continue;
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) continue;
+
+            const content = await this.app.vault.read(file);
+            const newLink = this.app.metadataCache.fileToLinktext(target, file.path, true);
+            const rewritten = rewriteLinks(content, (link) => {
+                if (!moves(link.subpath)) return null;
+                if (this.app.metadataCache.getFirstLinkpathDest(link.path, file.path) !== source) return null;
+                return { path: newLink, subpath: link.subpath };
+            });
+
+            if (rewritten !== content) {
+                await this.app.vault.modify(file, rewritten);
+                updated++;
             }
         }
+        return updated;
+    }
 
-        const rangeStart = { line: startLine, ch: 0 };
-        const rangeEnd = { line: endLine, ch: editor.getLine(endLine).length };
+    // Applies the edit as a single transaction so one undo reverts it
+    applyLineEdit(editor: Editor, edit: LineEdit) {
+        editor.transaction({
+            changes: [{
+                from: { line: edit.fromLine, ch: 0 },
+                to: { line: edit.toLine, ch: editor.getLine(edit.toLine).length },
+                text: edit.text
+            }],
+            selection: { from: { line: edit.cursorLine, ch: 0 } }
+        });
+        editor.scrollIntoView({ from: { line: edit.cursorLine, ch: 0 }, to: { line: edit.cursorLine, ch: 0 } });
+    }
 
-        if (select) {
+    // Core Logic for Selection/Copy
+    // With addToSelection the section joins the existing selections, or leaves them if it was already selected
+    selectOrCopySection(editor: Editor, headerLine: number, select: boolean, copy: boolean = false, format?: CopyFormat, addToSelection = false) {
+        const section = findSectionByHeading(buildSectionIndex(editor), headerLine);
+        if (!section) return;
+
+        const range = this.getSectionRange(editor, section);
+        if (!range) return;
+
+        const rangeStart = range.from;
+        const rangeEnd = range.to;
+
+        if (select && addToSelection) {
+            const samePos = (a: EditorPosition, b: EditorPosition) => a.line === b.line && a.ch === b.ch;
+            const isSection = (s: EditorSelectionOrCaret) => samePos(s.anchor, rangeStart) && samePos(s.head ?? s.anchor, rangeEnd);
+            const others = editor.listSelections().filter(s => !samePos(s.anchor, s.head) && !isSection(s));
+            const wasSelected = others.length < editor.listSelections().filter(s => !samePos(s.anchor, s.head)).length;
+            const selections: EditorSelectionOrCaret[] = wasSelected ? others : [...others, { anchor: rangeStart, head: rangeEnd }];
+            editor.setSelections(selections.length > 0 ? selections : [{ anchor: rangeStart }]);
+        } else if (select) {
             editor.setSelection(rangeStart, rangeEnd);
             // Scroll into view
             editor.scrollIntoView({ from: rangeStart, to: rangeEnd });
         }
 
         if (copy) {
-            const textToCopy = editor.getRange(rangeStart, rangeEnd);
-            navigator.clipboard.writeText(textToCopy).then(() => {
-                new Notice("Section copied to clipboard!");
-            });
+            this.copySection(editor, headerLine, this.app.workspace.getActiveFile()?.path ?? "", format ?? this.settings.copyFormat, this.settings.copyContext);
         }
     }
 
-    selectHeaderOnly(editor: Editor, headerLine: number) {
-        const headerText = editor.getLine(headerLine);
-        const match = headerText.match(/^(#+)\s+(.*)$/);
-
-        if (match) {
-            const hashes = match[1];
-            const title = match[2];
-            // Start after hashes and space
-            const startCh = hashes.length + 1; // +1 for space (assuming single space, regex \s+ might match more but standard is usually one)
-            // Actually, let's be precise:
-            const matchIndex = match.index || 0;
-            const fullMatch = match[0];
-            // We want the range of group 2 (title)
-            // match[1] is hashes
-            // match[2] is title
-            // The space is between them.
-
-            // Let's find the start index of title in the line
-            // It's length of hashes + length of whitespace
-            const prefixMatch = headerText.match(/^(#+\s+)/);
-            if (prefixMatch) {
-                const prefixLen = prefixMatch[1].length;
-                const endCh = prefixLen + title.length;
-
-                editor.setSelection(
-                    { line: headerLine, ch: prefixLen },
-                    { line: headerLine, ch: endCh }
-                );
+    // Copies the section at headerLine, honouring the includeHeader setting
+    async copySection(source: LineSource, headerLine: number, sourcePath: string, format: CopyFormat, withContext: boolean) {
+        const sections = buildSectionIndex(source);
+        const section = findSectionByHeading(sections, headerLine);
+        if (!section) return;
+
+        const startLine = this.settings.includeHeader ? section.headingLine : section.bodyStart;
+        if (startLine > section.end) return;
+        const lines: string[] = [];
+        for (let i = startLine; i <= section.end; i++) {
+            lines.push(source.getLine(i));
+        }
+        let text = lines.join("\n");
+        if (this.settings.copyExpandEmbeds) text = await expandEmbeds(this.app, text, this.embedOptions(sourcePath));
+        await this.copySectionText(withContext ? this.withSectionContext(text, sections, section, sourcePath) : text, format, sourcePath);
+    }
+
+    // Puts the context header from the settings in front of a copied section
+    withSectionContext(text: string, sections: SectionRange[], section: SectionRange, sourcePath: string): string {
+        const file = this.app.vault.getAbstractFileByPath(sourcePath);
+        const frontmatter = file instanceof TFile ? this.app.metadataCache.getFileCache(file)?.frontmatter : undefined;
+        const breadcrumbs: string[] = [];
+        for (let current: SectionRange | null = section; current; current = current.parent === -1 ? null : sections[current.parent]) {
+            breadcrumbs.unshift(current.title);
+        }
+
+        const header = renderContextHeader(this.settings.contextTemplate, {
+            note: file instanceof TFile ? file.basename : sourcePath.replace(/^.*\//, "").replace(/\.md$/, ""),
+            path: sourcePath,
+            heading: section.title,
+            breadcrumbs,
+            properties: this.settings.contextProperties
+                .filter(key => frontmatter?.[key] !== undefined && frontmatter?.[key] !== null)
+                .map(key => [key, formatPropertyValue(frontmatter?.[key])])
+        });
+        const body = this.settings.contextHeadingLevel > 0 ? relevelToTop(text, this.settings.contextHeadingLevel) : text;
+        return header.length > 0 ? `${header}\n\n${body}` : body;
+    }
+
+    // Sections covered by the editor's selections, in document order. A cursor covers nothing.
+    selectedSections(editor: Editor): SectionRange[] {
+        const ranges = editor.listSelections()
+            .filter(selection => selection.head && (selection.head.line !== selection.anchor.line || selection.head.ch !== selection.anchor.ch))
+            .map(selection => ({
+                from: Math.min(selection.anchor.line, selection.head.line),
+                to: Math.max(selection.anchor.line, selection.head.line)
+            }));
+        const sections = sectionsInRanges(buildSectionIndex(editor), ranges, !this.settings.includeHeader);
+        if (sections.length === 0) {
+            new Notice("No sections are selected.");
+        }
+        return sections;
+    }
+
+    // Text of a section without its trailing blank lines
+    sectionText(editor: Editor, section: SectionRange): string {
+        let lastLine = section.end;
+        while (lastLine > section.headingLine && editor.getLine(lastLine).trim().length === 0) lastLine--;
+        return editor.getRange({ line: section.headingLine, ch: 0 }, { line: lastLine, ch: editor.getLine(lastLine).length });
+    }
+
+    // Changes removing whole sections, including the line breaks that end them
+    deleteSectionsChanges(editor: Editor, sections: SectionRange[]): EditorChange[] {
+        // Neighbouring sections are removed as one block so the changes never overlap
+        const blocks: { from: number, to: number }[] = [];
+        sections.forEach(section => {
+            const last = blocks[blocks.length - 1];
+            if (last && last.to + 1 === section.headingLine) {
+                last.to = section.end;
+            } else {
+                blocks.push({ from: section.headingLine, to: section.end });
+            }
+        });
+
+        return blocks.map(({ from, to }) => {
+            if (to + 1 < editor.lineCount()) {
+                return { from: { line: from, ch: 0 }, to: { line: to + 1, ch: 0 }, text: "" };
+            }
+            // The end of the note takes the line break before it instead
+            const start = from > 0 ? { line: from - 1, ch: editor.getLine(from - 1).length } : { line: 0, ch: 0 };
+            return { from: start, to: { line: to, ch: editor.getLine(to).length }, text: "" };
+        });
+    }
+
+    async copySelectedSections(editor: Editor) {
+        const sections = this.selectedSections(editor);
+        if (sections.length === 0) return;
+        await this.copySectionText(sections.map(section => this.sectionText(editor, section)).join("\n\n"), this.settings.copyFormat);
+    }
+
+    deleteSelectedSections(editor: Editor) {
+        const sections = this.selectedSections(editor);
+        if (sections.length === 0) return;
+        editor.transaction({
+            changes: this.deleteSectionsChanges(editor, sections),
+            selection: { from: { line: Math.min(sections[0].headingLine, editor.lastLine()), ch: 0 } }
+        });
+        new Notice(`Deleted ${sections.length} sections.`);
+    }
+
+    // Appends the selected sections to another note and removes them here in one undo step
+    async moveSelectedSections(editor: Editor, source: TFile, target: TFile) {
+        const sections = this.selectedSections(editor);
+        if (sections.length === 0) return;
+        if (target.path === source.path) {
+            new Notice("Pick a different note to move the sections to.");
+            return;
+        }
+
+        // Same-note links to headings that stay behind must now name this note
+        const all = buildSectionIndex(editor);
+        const moving = new Set<string>();
+        sections.forEach(section => subtreeOf(all, all.indexOf(section)).forEach(s => moving.add(s.title.toLowerCase())));
+        const sourceLink = this.app.metadataCache.fileToLinktext(source, target.path, true);
+        const text = sections
+            .map(section => rewriteLinks(this.sectionText(editor, section), (link) =>
+                link.path === "" && link.subpath.length > 0 && !moving.has(subpathName(link.subpath).toLowerCase())
+                    ? { path: sourceLink, subpath: link.subpath }
+                    : null))
+            .join("\n\n");
+
+        try {
+            await this.app.vault.process(target, (data) => data.trimEnd().length > 0 ? `${data.trimEnd()}\n\n${text}\n` : `${text}\n`);
+        } catch (error) {
+            console.error("Error moving sections:", error);
+            new Notice("Failed to move sections. See console for details.");
+            return;
+        }
+
+        editor.transaction({
+            changes: this.deleteSectionsChanges(editor, sections),
+            selection: { from: { line: Math.min(sections[0].headingLine, editor.lastLine()), ch: 0 } }
+        });
+        new Notice(`Moved ${sections.length} sections to ${target.basename}.`);
+    }
+
+    async copySectionText(markdown: string, format: CopyFormat, sourcePath = this.app.workspace.getActiveFile()?.path ?? "") {
+        const text = convertWikilinks(markdown, this.settings.copyWikilinks);
+
+        try {
+            if (format === "markdown") {
+                await navigator.clipboard.writeText(text);
+            } else if (format === "plain") {
+                await navigator.clipboard.writeText(stripMarkdown(text));
+            } else {
+                const html = await this.renderHtml(text, sourcePath);
+                if (format === "html") {
+                    await navigator.clipboard.writeText(html);
+                } else {
+                    // Rich text keeps a plain text fallback for targets that ignore HTML
+                    await navigator.clipboard.write([
+                        new ClipboardItem({
+                            "text/html": new Blob([html], { type: "text/html" }),
+                            "text/plain": new Blob([stripMarkdown(text)], { type: "text/plain" })
+                        })
+                    ]);
+                }
             }
+            new Notice(format === "markdown" ? "Section copied to clipboard!" : `Section copied as ${COPY_FORMAT_LABELS[format]}!`);
+            this.app.workspace.trigger("sectcy:section-copied", { text, format, sourcePath });
+        } catch (error) {
+            console.error("Error copying section:", error);
+            new Notice("Failed to copy section. See console for details.");
         }
     }
-}
 
-// CodeMirror 6 Extension for Live Preview
-function selectSectionExtension(plugin: SelectSectionPlugin) {
-    return ViewPlugin.fromClass(
-        class {
-            decorations: DecorationSet;
+    async renderHtml(markdown: string, sourcePath: string): Promise<string> {
+        const el = document.createElement("div");
+        const component = new Component();
+        component.load();
+        try {
+            await MarkdownRenderer.render(this.app, markdown, el, sourcePath, component);
+        } finally {
+            component.unload();
+        }
+
+        // Drop interface elements that Obsidian and this plugin add to rendered Markdown
+        el.querySelectorAll(".select-section-container, .copy-code-button, .heading-collapse-indicator, .collapse-indicator")
+            .forEach((node) => node.remove());
+        return el.innerHTML;
+    }
+
+    showCopyFormatMenu(event: MouseEvent, onSelect: (format: CopyFormat, withContext: boolean) => void) {
+        const menu = new Menu();
+        (Object.keys(COPY_FORMAT_LABELS) as CopyFormat[]).forEach((format) => {
+            menu.addItem((item) => {
+                item
+                    .setTitle(`Copy as ${COPY_FORMAT_LABELS[format]}`)
+                    .setChecked(format === this.settings.copyFormat)
+                    .onClick(() => onSelect(format, this.settings.copyContext));
+            });
+        });
+        menu.addSeparator();
+        menu.addItem((item) => {
+            item
+                .setTitle(this.settings.copyContext ? "Copy without context" : "Copy with context")
+                .setIcon("list-tree")
+                .onClick(() => onSelect(this.settings.copyFormat, !this.settings.copyContext));
+        });
+        menu.showAtMouseEvent(event);
+    }
+
+    showLinkKindMenu(event: MouseEvent, onSelect: (kind: SectionLinkKind) => void) {
+        const menu = new Menu();
+        (Object.keys(SECTION_LINK_LABELS) as SectionLinkKind[]).forEach((kind) => {
+            menu.addItem((item) => {
+                item
+                    .setTitle(`Copy ${SECTION_LINK_LABELS[kind]}`)
+                    .onClick(() => onSelect(kind));
+            });
+        });
+        menu.showAtMouseEvent(event);
+    }
+
+    // Adding a block id goes through the editor when the note is open, so it can be undone
+    async copySectionLink(file: TFile, source: LineSource, headerLine: number, kind: SectionLinkKind, editor?: Editor) {
+        const sections = buildSectionIndex(source);
+        const section = findSectionByHeading(sections, headerLine);
+        if (!section) return;
+
+        const title = linkableHeading(section.title);
+        // Headings that no path tells apart, such as same-named siblings, are linked by block id
+        const path = this.settings.sectionLinkTarget === "block" ? null : headingPath(sections, sections.indexOf(section));
+        let subpath: string;
+        if (path) {
+            subpath = "#" + path.map(linkableHeading).join("#");
+        } else {
+            const id = await this.ensureHeadingBlockId(file, source, section, editor);
+            if (id === null) return;
+            subpath = `#^${id}`;
+        }
+
+        // Link paths are written as the note itself would link to the section
+        let text: string;
+        if (kind === "uri") {
+            text = `obsidian://open?vault=${encodeURIComponent(this.app.vault.getName())}&file=${encodeURIComponent(file.path + subpath)}`;
+        } else if (kind === "markdown") {
+            const linktext = this.app.metadataCache.fileToLinktext(file, file.path, false);
+            text = `[${title}](${encodeURI(linktext + subpath)})`;
+        } else {
+            // Follows the vault's wikilink and link path preferences
+            const link = this.app.fileManager.generateMarkdownLink(file, file.path, subpath);
+            text = kind === "embed" ? `!${link}` : link;
+        }
+
+        try {
+            await navigator.clipboard.writeText(text);
+            new Notice(`${SECTION_LINK_LABELS[kind]} copied to clipboard!`);
+        } catch (error) {
+            console.error("Error copying link:", error);
+            new Notice("Failed to copy link. See console for details.");
+        }
+    }
+
+    // Block id at the end of a heading, added when the heading has none yet. Returns null when
+    // the note changed on disk and the heading is no longer where it was read.
+    async ensureHeadingBlockId(file: TFile, source: LineSource, section: SectionRange, editor?: Editor): Promise<string | null> {
+        // The last title line carries the id, which for setext headings sits above the underline
+        const line = section.setext ? section.headingEnd - 1 : section.headingLine;
+        const text = source.getLine(line);
+        const existing = text.match(/\s\^([\w-]+)\s*$/);
+        if (existing) return existing[1];
+
+        const id = Math.random().toString(36).slice(2, 8);
+        const withId = `${text.trimEnd()} ^${id}`;
+        if (editor) {
+            editor.replaceRange(withId, { line, ch: 0 }, { line, ch: text.length });
+        } else {
+            let found = false;
+            await this.app.vault.process(file, (data) => {
+                const lines = data.split("\n");
+                found = lines[line] === text;
+                if (found) lines[line] = withId;
+                return lines.join("\n");
+            });
+            if (!found) {
+                new Notice("The note changed before the block id could be added. Try copying the link again.");
+                return null;
+            }
+        }
+        return id;
+    }
+
+    selectHeaderOnly(editor: Editor, headerLine: number) {
+        const section = findSectionByHeading(buildSectionIndex(editor), headerLine);
+        if (!section) return;
+
+        if (section.setext) {
+            // Title spans the paragraph lines above the underline
+            const firstLine = editor.getLine(section.headingLine);
+            const lastLine = section.headingEnd - 1;
+            editor.setSelection(
+                { line: section.headingLine, ch: firstLine.length - firstLine.trimStart().length },
+                { line: lastLine, ch: editor.getLine(lastLine).trimEnd().length }
+            );
+            return;
+        }
+
+        // Title as indexed, without the opening hashes or an optional closing sequence
+        const text = editor.getLine(section.headingLine);
+        const prefix = text.match(/^ {0,3}#{1,6}[ \t]+/);
+        const start = text.indexOf(section.title, prefix ? prefix[0].length : 0);
+        if (start < 0) return;
+        editor.setSelection(
+            { line: section.headingLine, ch: start },
+            { line: section.headingLine, ch: start + section.title.length }
+        );
+    }
+}
+
+function closeCompactMenus(evt: MouseEvent) {
+    const target = evt.target as Node;
+    target.doc.querySelectorAll(".select-section-compact-actions.show").forEach((actions) => {
+        if (!actions.parentElement?.contains(target)) actions.removeClass("show");
+    });
+}
+
+// Removes characters that are not allowed in note names
+function sanitizeFileName(name: string): string {
+    return name.replace(/[\\/:*?"<>|#^[\]]/g, "").trim() || "Untitled";
+}
+
+// Obsidian's Markdown parser names heading tokens after their level, e.g. "header_header-2"
+const HEADER_NODE = /(?:^|_)(?:HyperMD-)?header-([1-6])(?:_|$)/;
+const ATX_LINE = /^ {0,3}#{1,6}([ \t]|$)/;
+const SETEXT_UNDERLINE_LINE = /^ {0,3}(=+|-+)[ \t]*$/;
+
+// Widget positions between from and to: the end of every heading line, and for setext
+// headings the end of the title line right above the underline
+function headingWidgetPositions(state: EditorState, from: number, to: number): { pos: number, level: number }[] {
+    const doc = state.doc;
+    const levels = new Map<number, number>();
+    syntaxTree(state).iterate({
+        from,
+        to,
+        enter: (node) => {
+            const match = node.name.match(HEADER_NODE);
+            if (match) levels.set(doc.lineAt(node.from).number, parseInt(match[1], 10));
+        }
+    });
+
+    const positions: { pos: number, level: number }[] = [];
+    [...levels.keys()].sort((a, b) => a - b).forEach(number => {
+        const line = doc.line(number);
+        if (ATX_LINE.test(line.text)) {
+            positions.push({ pos: line.to, level: levels.get(number) });
+        } else if (!SETEXT_UNDERLINE_LINE.test(line.text) && number < doc.lines && SETEXT_UNDERLINE_LINE.test(doc.line(number + 1).text)) {
+            positions.push({ pos: line.to, level: levels.get(number) });
+        }
+    });
+    return positions;
+}
+
+// CodeMirror 6 Extension for Live Preview
+function selectSectionExtension(plugin: SelectSectionPlugin) {
+    // Widgets find their section when clicked, so one decoration per heading level serves every
+    // heading. Custom actions depend on the level, and on settings that may change at any time.
+    let widgets: Decoration[] = [];
+    let version = -1;
+    const widget = (level: number) => {
+        if (version !== plugin.settingsVersion) {
+            version = plugin.settingsVersion;
+            widgets = [1, 2, 3, 4, 5, 6].map(l => Decoration.widget({ widget: new SelectSectionWidget(plugin, l, version), side: 1 }));
+        }
+        return widgets[level - 1];
+    };
+
+    return ViewPlugin.fromClass(
+        class {
+            decorations: DecorationSet;
+
+            constructor(view: EditorView) {
+                this.decorations = this.buildDecorations(view);
+            }
+
+            update(update: ViewUpdate) {
+                const parsed = syntaxTree(update.state) !== syntaxTree(update.startState);
+                const reconfigured = update.transactions.some(tr => tr.reconfigured);
+                if (update.viewportChanged || reconfigured || (parsed && !update.docChanged)) {
+                    this.decorations = this.buildDecorations(update.view);
+                    return;
+                }
+                if (!update.docChanged) return;
+
+                // Only the lines touched by the change are scanned again, everything else is mapped
+                const doc = update.state.doc;
+                let ranges: [number, number][] = [];
+                update.changes.iterChangedRanges((_fromA, _toA, fromB, toB) => ranges.push([fromB, toB]));
+                if (parsed) {
+                    // The parser may have read the text after the change differently too, e.g. once a fence opens
+                    ranges = [[ranges[0][0], Math.max(ranges[ranges.length - 1][1], update.view.viewport.to)]];
+                }
+
+                let decorations = this.decorations.map(update.changes);
+                ranges.forEach(([fromB, toB]) => {
+                    // A change can turn the next line into a setext underline, or stop it being one
+                    const from = doc.line(Math.max(1, doc.lineAt(fromB).number - 1)).from;
+                    const to = doc.line(Math.min(doc.lines, doc.lineAt(toB).number + 1)).to;
+                    decorations = decorations.update({
+                        filterFrom: from,
+                        filterTo: to,
+                        filter: () => false,
+                        add: headingWidgetPositions(update.state, from, to).map(({ pos, level }) => widget(level).range(pos)),
+                        sort: true
+                    });
+                });
+                this.decorations = decorations;
+            }
+
+            buildDecorations(view: EditorView) {
+                const builder = new RangeSetBuilder<Decoration>();
+                for (const { from, to } of view.visibleRanges) {
+                    headingWidgetPositions(view.state, from, to).forEach(({ pos, level }) => builder.add(pos, pos, widget(level)));
+                }
+                return builder.finish();
+            }
+        },
+        {
+            decorations: v => v.decorations
+        }
+    );
+}
+
+interface SectionBadge {
+    text: string;
+    tooltip: string;
+    overLimit: boolean;
+}
+
+function renderSectionBadge(parent: HTMLElement, badge: SectionBadge): HTMLElement {
+    const el = parent.createSpan({ cls: "select-section-badge", text: badge.text });
+    if (badge.overLimit) {
+        el.addClass("is-over-limit");
+        el.ariaLabel = badge.tooltip;
+    }
+    return el;
+}
+
+// Section index per document, reused until the document changes
+const sectionCache = new WeakMap<Text, SectionRange[]>();
+
+function docLines(doc: Text): LineSource {
+    return {
+        lineCount: () => doc.lines,
+        getLine: (line: number) => doc.line(line + 1).text
+    };
+}
+
+function sectionsOf(doc: Text): SectionRange[] {
+    let sections = sectionCache.get(doc);
+    if (!sections) {
+        sections = buildSectionIndex(docLines(doc));
+        sectionCache.set(doc, sections);
+    }
+    return sections;
+}
+
+// Badges depend on the whole section body: on a change, the badges of every section the change
+// falls in are computed again, ancestors included. Nothing is computed while badges are turned off.
+function sectionBadgeExtension(plugin: SelectSectionPlugin) {
+    // Badge for the section at index, placed at the end of its (last) title line
+    const badgeRange = (doc: Text, sections: SectionRange[], index: number) => {
+        const section = sections[index];
+        const badge = plugin.sectionBadge(sectionStats(docLines(doc), sections, index, plugin.settings.badgeIncludeChildren), section.level);
+        if (!badge) return null;
+        // Setext headings get their badge on the title line, not the underline
+        const pos = doc.line((section.setext ? section.headingEnd - 1 : section.headingLine) + 1).to;
+        return Decoration.widget({ widget: new SectionBadgeWidget(badge), side: 2 }).range(pos);
+    };
+
+    return ViewPlugin.fromClass(
+        class {
+            decorations: DecorationSet;
+
+            constructor(view: EditorView) {
+                this.decorations = this.buildDecorations(view);
+            }
+
+            update(update: ViewUpdate) {
+                if (update.viewportChanged || update.transactions.some(tr => tr.reconfigured)) {
+                    this.decorations = this.buildDecorations(update.view);
+                    return;
+                }
+                if (!update.docChanged || !plugin.settings.showBadges) return;
+
+                const doc = update.state.doc;
+                const sections = sectionsOf(doc);
+                // Lines around each change, which may have gained or lost a heading
+                const changed: [number, number][] = [];
+                update.changes.iterChangedRanges((_fromA, _toA, fromB, toB) => {
+                    changed.push([Math.max(0, doc.lineAt(fromB).number - 2), Math.min(doc.lines - 1, doc.lineAt(toB).number)]);
+                });
+                const affected = sections
+                    .map((_, index) => index)
+                    .filter(index => changed.some(([from, to]) => sections[index].headingLine <= to && sections[index].end >= from));
+
+                // Old badges on the changed lines and on the affected headings are replaced
+                const refresh = new Set<number>();
+                changed.forEach(([from, to]) => {
+                    for (let line = from; line <= to; line++) refresh.add(line);
+                });
+                affected.forEach(index => {
+                    const section = sections[index];
+                    refresh.add(section.setext ? section.headingEnd - 1 : section.headingLine);
+                });
+
+                const visible = (pos: number) => update.view.visibleRanges.some(({ from, to }) => pos >= from && pos <= to);
+                this.decorations = this.decorations.map(update.changes).update({
+                    filter: (from) => !refresh.has(doc.lineAt(from).number - 1),
+                    add: affected
+                        .map(index => badgeRange(doc, sections, index))
+                        .filter((range): range is NonNullable<typeof range> => range !== null && visible(range.from)),
+                    sort: true
+                });
+            }
+
+            buildDecorations(view: EditorView) {
+                if (!plugin.settings.showBadges) return Decoration.none;
+
+                const builder = new RangeSetBuilder<Decoration>();
+                const doc = view.state.doc;
+                const sections = sectionsOf(doc);
+                let added = -1;
+                for (const { from, to } of view.visibleRanges) {
+                    const firstLine = doc.lineAt(from).number - 1;
+                    const lastLine = doc.lineAt(to).number - 1;
+                    sections.forEach((section, index) => {
+                        const line = section.setext ? section.headingEnd - 1 : section.headingLine;
+                        if (line < firstLine || line > lastLine || line <= added) return;
+                        const range = badgeRange(doc, sections, index);
+                        if (!range) return;
+                        builder.add(range.from, range.to, range.value);
+                        added = line;
+                    });
+                }
+                return builder.finish();
+            }
+        },
+        {
+            decorations: v => v.decorations
+        }
+    );
+}
+
+class SectionBadgeWidget extends WidgetType {
+    badge: SectionBadge;
+
+    constructor(badge: SectionBadge) {
+        super();
+        this.badge = badge;
+    }
+
+    eq(other: WidgetType): boolean {
+        return other instanceof SectionBadgeWidget &&
+            other.badge.text === this.badge.text &&
+            other.badge.tooltip === this.badge.tooltip;
+    }
+
+    toDOM(): HTMLElement {
+        const container = document.createElement("span");
+        renderSectionBadge(container, this.badge);
+        return container.firstElementChild as HTMLElement;
+    }
+}
+
+class SelectSectionWidget extends WidgetType {
+    plugin: SelectSectionPlugin;
+    level: number;
+    version: number;
+
+    constructor(plugin: SelectSectionPlugin, level: number, version: number) {
+        super();
+        this.plugin = plugin;
+        this.level = level;
+        this.version = version;
+    }
+
+    // Widgets hold no per-heading state, so CodeMirror can keep their DOM while the text changes
+    eq(other: WidgetType): boolean {
+        return other instanceof SelectSectionWidget && other.plugin === this.plugin &&
+            other.level === this.level && other.version === this.version;
+    }
+
+    toDOM(view: EditorView): HTMLElement {
+        const container = document.createElement("span");
+        container.addClass("select-section-container");
+        container.addClass("cm-widget"); // Helper class
+        // Body class handles visibility now
+
+        // Unified DOM Structure
+        container.addClass("select-section-compact");
+
+        const triggerBtn = container.createSpan({ cls: "select-section-btn select-section-compact-trigger" });
+        setIcon(triggerBtn, "more-horizontal");
+        triggerBtn.ariaLabel = "Show Actions";
+
+        const actionsContainer = container.createSpan({ cls: "select-section-compact-actions" });
+
+        triggerBtn.onclick = (e) => {
+            e.stopPropagation();
+            actionsContainer.classList.toggle("show");
+        };
+
+        // Acts in the editor that shows this widget, on the heading the widget currently sits on
+        this.createActionButtons(actionsContainer, (action) => {
+            const info = view.state.field(editorInfoField, false);
+            if (!info?.editor || !info.file) return;
+            const line = view.state.doc.lineAt(view.posAtDOM(container)).number - 1;
+            action(info.editor, line, info.file);
+        });
+
+        return container;
+    }
+
+    createActionButtons(container: HTMLElement, withEditor: (action: (editor: Editor, headerLine: number, file: TFile) => void) => void) {
+        // Always create buttons, visibility controlled by CSS
+        const selectBtn = container.createSpan({ cls: "select-section-btn select-section-btn-select" });
+        setIcon(selectBtn, "mouse-pointer-click");
+        selectBtn.ariaLabel = "Select and Copy Section";
+        selectBtn.onclick = (e) => {
+            e.stopPropagation(); // Prevent cursor movement
+            // Ctrl/Cmd-click builds up a selection of several sections
+            const add = Keymap.isModifier(e, "Mod");
+            withEditor((editor, line) => this.plugin.selectOrCopySection(editor, line, true, false, undefined, add));
+        };
+
+        const copyBtn = container.createSpan({ cls: "select-section-btn select-section-btn-copy" });
+        setIcon(copyBtn, "copy");
+        copyBtn.ariaLabel = "Copy Section";
+        copyBtn.onclick = (e) => {
+            e.stopPropagation();
+            withEditor((editor, line) => this.plugin.selectOrCopySection(editor, line, false, true));
+        };
+        copyBtn.oncontextmenu = (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            this.plugin.showCopyFormatMenu(e, (format, withContext) => {
+                withEditor((editor, line, file) => this.plugin.copySection(editor, line, file.path, format, withContext));
+            });
+        };
+
+        const collectBtn = container.createSpan({ cls: "select-section-btn select-section-btn-collect" });
+        setIcon(collectBtn, "list-plus");
+        collectBtn.ariaLabel = "Add to Collection";
+        collectBtn.onclick = (e) => {
+            e.stopPropagation();
+            withEditor((editor, line, file) => this.plugin.addSectionToCollection(file.path, editor, line));
+        };
+
+        const linkBtn = container.createSpan({ cls: "select-section-btn select-section-btn-link" });
+        setIcon(linkBtn, "link");
+        linkBtn.ariaLabel = "Copy Link to Section";
+        const copyLink = (kind: SectionLinkKind) => {
+            withEditor((editor, line, file) => this.plugin.copySectionLink(file, editor, line, kind, editor));
+        };
+        linkBtn.onclick = (e) => {
+            e.stopPropagation();
+            copyLink("link");
+        };
+        linkBtn.oncontextmenu = (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            this.plugin.showLinkKindMenu(e, copyLink);
+        };
+
+        const selectHeaderBtn = container.createSpan({ cls: "select-section-btn select-section-btn-select-header" });
+        setIcon(selectHeaderBtn, "heading");
+        selectHeaderBtn.ariaLabel = "Select Header Title Only";
+        selectHeaderBtn.onclick = (e) => {
+            e.stopPropagation();
+            withEditor((editor, line) => this.plugin.selectHeaderOnly(editor, line));
+        };
+
+        this.plugin.createRestructureButtons(container, (action) => {
+            withEditor((editor, line, file) => action(editor, line, file));
+        });
+
+        this.plugin.createCustomActionButtons(container, this.level, (action) => {
+            withEditor((editor, line, file) => this.plugin.runCustomAction(action, editor, line, file.path, editor));
+        });
+        this.plugin.orderActionButtons(container);
+    }
+}
+
+// Merge layout controls shared by the settings tab and the merge modal
+function renderMergeFormatSettings(containerEl: HTMLElement, format: MergeFormatOptions, onChange: () => void) {
+    new Setting(containerEl)
+        .setName('Insert Note Titles')
+        .setDesc('Add each note\'s name as a heading above its content.')
+        .addToggle(toggle => toggle
+            .setValue(format.insertTitles)
+            .onChange((value) => {
+                format.insertTitles = value;
+                onChange();
+            }));
+
+    new Setting(containerEl)
+        .setName('Title Heading Level')
+        .addDropdown(dropdown => dropdown
+            .addOptions({ "1": "H1", "2": "H2", "3": "H3", "4": "H4", "5": "H5", "6": "H6" })
+            .setValue(String(format.titleLevel))
+            .onChange((value) => {
+                format.titleLevel = Number(value);
+                onChange();
+            }));
+
+    new Setting(containerEl)
+        .setName('Demote Headings')
+        .setDesc('Push every heading inside the merged notes down by this many levels.')
+        .addDropdown(dropdown => dropdown
+            .addOptions({ "0": "Don't demote", "1": "1 level", "2": "2 levels", "3": "3 levels", "4": "4 levels", "5": "5 levels" })
+            .setValue(String(format.demoteHeadings))
+            .onChange((value) => {
+                format.demoteHeadings = Number(value);
+                onChange();
+            }));
+
+    new Setting(containerEl)
+        .setName('Frontmatter')
+        .setDesc('Keep each note\'s properties where they are, strip them, or combine them into one block at the top.')
+        .addDropdown(dropdown => dropdown
+            .addOptions({ keep: 'Keep in place', strip: 'Strip', combine: 'Combine at top' })
+            .setValue(format.frontmatter)
+            .onChange((value) => {
+                format.frontmatter = value as FrontmatterMode;
+                onChange();
+            }));
+
+    new Setting(containerEl)
+        .setName('Conflicting Properties')
+        .setDesc('When combining, what to do with a property that notes set to different values.')
+        .addDropdown(dropdown => dropdown
+            .addOptions({ list: 'Combine into a list', first: 'Keep first value', last: 'Keep last value' })
+            .setValue(format.frontmatterConflict)
+            .onChange((value) => {
+                format.frontmatterConflict = value as FrontmatterConflict;
+                onChange();
+            }));
+
+    new Setting(containerEl)
+        .setName('Separator')
+        .setDesc('Line placed between merged notes, e.g. "---" for a horizontal rule. Leave empty for none.')
+        .addText(text => text
+            .setValue(format.separator)
+            .onChange((value) => {
+                format.separator = value;
+                onChange();
+            }));
+
+    new Setting(containerEl)
+        .setName('Expand Embeds')
+        .setDesc('Replace embedded notes, sections and blocks with their content, so the merged note works outside the vault.')
+        .addToggle(toggle => toggle
+            .setValue(format.expandEmbeds)
+            .onChange((value) => {
+                format.expandEmbeds = value;
+                onChange();
+            }));
+}
+
+// Post-merge controls shared by the settings tab and the merge modal
+function renderPostMergeSettings(containerEl: HTMLElement, postMerge: PostMergeOptions, onChange: () => void) {
+    new Setting(containerEl)
+        .setName('After Merging')
+        .setDesc('What to do with the source notes. "Undo last merge" brings them back.')
+        .addDropdown(dropdown => dropdown
+            .addOptions({ keep: 'Keep source notes', archive: 'Move to archive folder', trash: 'Move to trash' })
+            .setValue(postMerge.action)
+            .onChange((value) => {
+                postMerge.action = value as PostMergeAction;
+                onChange();
+            }));
+
+    new Setting(containerEl)
+        .setName('Archive Folder')
+        .setDesc('Where source notes are moved when archiving.')
+        .addText(text => text
+            .setPlaceholder('Archive')
+            .setValue(postMerge.archiveFolder)
+            .onChange((value) => {
+                postMerge.archiveFolder = value;
+                onChange();
+            }));
+
+    new Setting(containerEl)
+        .setName('Redirect Backlinks')
+        .setDesc('Point links to the source notes at the merged note instead.')
+        .addToggle(toggle => toggle
+            .setValue(postMerge.redirectBacklinks)
+            .onChange((value) => {
+                postMerge.redirectBacklinks = value;
+                onChange();
+            }));
+}
+
+function describeMergePreset(preset: MergePreset): string {
+    let source: string;
+    if (preset.source === "folder") {
+        source = `${preset.recursive ? "Folder tree" : "Folder"} "${preset.folder || "/"}"`;
+    } else if (preset.source === "tag") {
+        source = `Tag #${preset.tag.replace(/^#/, "")}`;
+    } else {
+        source = `Property ${preset.propertyKey}${preset.propertyValue ? `: ${preset.propertyValue}` : ""}`;
+    }
+    return `${source} → ${preset.outputFolder || "source folder"}/${preset.fileNameTemplate}.md${preset.overwrite ? " (overwrite)" : ""}${preset.live ? " (live)" : ""}`;
+}
+
+function describeCustomAction(action: CustomAction): string {
+    const levels = action.levels.length > 0 ? action.levels.map(level => `H${level}`).join(", ") : "all headers";
+    let detail = "";
+    if (action.transform === "callout") detail = ` [!${action.calloutType}]`;
+    if (action.transform === "regex") detail = ` /${action.pattern}/${action.flags}`;
+    if (action.transform === "append-note") detail = ` ${action.targetNote || "(no note chosen)"}`;
+    return `${ACTION_TRANSFORM_LABELS[action.transform]}${detail} · ${levels}`;
+}
+
+class SelectSectionSettingTab extends PluginSettingTab {
+    plugin: SelectSectionPlugin;
+
+    constructor(app: App, plugin: SelectSectionPlugin) {
+        super(app, plugin);
+        this.plugin = plugin;
+    }
+
+    display(): void {
+        const { containerEl } = this;
+
+        containerEl.empty();
+
+        containerEl.createEl('h2', { text: 'Select and Copy Section Settings' });
+
+        new Setting(containerEl)
+            .setName('Always Show Icons')
+            .setDesc('If disabled, icons will only show when hovering over the header.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.alwaysShowIcons)
+                .onChange(async (value) => {
+                    this.plugin.settings.alwaysShowIcons = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Include Header in Selection')
+            .setDesc('If enabled, the header itself will be included in the selection/copy.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.includeHeader)
+                .onChange(async (value) => {
+                    this.plugin.settings.includeHeader = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Default Copy Format')
+            .setDesc('Format used by the copy button. Right-click the copy button to pick another format.')
+            .addDropdown(dropdown => dropdown
+                .addOptions(COPY_FORMAT_LABELS)
+                .setValue(this.plugin.settings.copyFormat)
+                .onChange(async (value) => {
+                    this.plugin.settings.copyFormat = value as CopyFormat;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Wikilinks When Copying')
+            .setDesc('Keep wikilinks as they are, or turn them into normal Markdown links or plain text.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({ keep: 'Keep wikilinks', markdown: 'Markdown links', text: 'Plain text' })
+                .setValue(this.plugin.settings.copyWikilinks)
+                .onChange(async (value) => {
+                    this.plugin.settings.copyWikilinks = value as WikilinkMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Copy With Context')
+            .setDesc('Put a header with the note title, frontmatter fields and parent headings in front of every copied section. Right-click the copy button to copy once the other way.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.copyContext)
+                .onChange(async (value) => {
+                    this.plugin.settings.copyContext = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Context Template')
+            .setDesc('Header added when copying with context. Use {{note}}, {{path}}, {{heading}}, {{breadcrumbs}} (e.g. "Project > Q3 Plan > Risks") and {{properties}}. Lines left empty are dropped.')
+            .addTextArea(text => text
+                .setValue(this.plugin.settings.contextTemplate)
+                .onChange(async (value) => {
+                    this.plugin.settings.contextTemplate = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Context Properties')
+            .setDesc('Frontmatter fields listed by {{properties}}, separated by commas (e.g. "project, status").')
+            .addText(text => text
+                .setValue(this.plugin.settings.contextProperties.join(", "))
+                .onChange(async (value) => {
+                    this.plugin.settings.contextProperties = value.split(",").map(key => key.trim()).filter(key => key.length > 0);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Context Header Level')
+            .setDesc('Shift the headings of a section copied with context so it starts at this level.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({ "0": 'Keep levels', "1": 'H1', "2": 'H2', "3": 'H3' })
+                .setValue(String(this.plugin.settings.contextHeadingLevel))
+                .onChange(async (value) => {
+                    this.plugin.settings.contextHeadingLevel = parseInt(value, 10);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Expand Embeds When Copying')
+            .setDesc('Replace embedded notes, sections and blocks in a copied section with their content.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.copyExpandEmbeds)
+                .onChange(async (value) => {
+                    this.plugin.settings.copyExpandEmbeds = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Embed Depth')
+            .setDesc('How many levels of embeds inside embedded content are expanded, when copying and merging. Deeper embeds and embeds that would repeat themselves stay links.')
+            .addText(text => text
+                .setValue(String(this.plugin.settings.embedDepth))
+                .onChange(async (value) => {
+                    const depth = parseInt(value, 10);
+                    this.plugin.settings.embedDepth = isNaN(depth) || depth < 1 ? 1 : depth;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Attachments in Expanded Text')
+            .setDesc('What happens to embedded images and other files when embeds are expanded.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({ keep: 'Keep the embed', path: 'Relative path link', data: 'Inline as data URI' })
+                .setValue(this.plugin.settings.embedAttachments)
+                .onChange(async (value) => {
+                    this.plugin.settings.embedAttachments = value as AttachmentMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Section Links Point To')
+            .setDesc('Link to the header by name, or add a block id (^abc123) to the header and link to that. Block links keep working when the header is renamed.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({ heading: 'Header', block: 'Block id' })
+                .setValue(this.plugin.settings.sectionLinkTarget)
+                .onChange(async (value) => {
+                    this.plugin.settings.sectionLinkTarget = value as "heading" | "block";
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Show Select Button')
+            .setDesc('Show the button to select the section content.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showSelectButton)
+                .onChange(async (value) => {
+                    this.plugin.settings.showSelectButton = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Show Copy Button')
+            .setDesc('Show the button to copy the section content.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showCopyButton)
+                .onChange(async (value) => {
+                    this.plugin.settings.showCopyButton = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Show Add to Collection Button')
+            .setDesc('Show the button to add the section to the section collection.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showCollectButton)
+                .onChange(async (value) => {
+                    this.plugin.settings.showCollectButton = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Show Copy Link Button')
+            .setDesc('Show the button to copy a link to the section. Right-click it to copy an embed, Markdown link or Obsidian URI instead.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showLinkButton)
+                .onChange(async (value) => {
+                    this.plugin.settings.showLinkButton = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Show Select Header Button')
+            .setDesc('Show the button to select only the header title.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showSelectHeaderButton)
+                .onChange(async (value) => {
+                    this.plugin.settings.showSelectHeaderButton = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Show Move Buttons')
+            .setDesc('Show the buttons to move a section above or below its neighbouring sections.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showMoveButtons)
+                .onChange(async (value) => {
+                    this.plugin.settings.showMoveButtons = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Show Promote/Demote Buttons')
+            .setDesc('Show the buttons to change the level of a header together with all of its sub-headers.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showLevelButtons)
+                .onChange(async (value) => {
+                    this.plugin.settings.showLevelButtons = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Show Extract Button')
+            .setDesc('Show the button to move a section into a new note.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showExtractButton)
+                .onChange(async (value) => {
+                    this.plugin.settings.showExtractButton = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Compact Buttons')
+            .setDesc('Stack buttons into a single toggle menu.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.compactButtons)
+                .onChange(async (value) => {
+                    this.plugin.settings.compactButtons = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Section Badges' });
+
+        new Setting(containerEl)
+            .setName('Show Section Badges')
+            .setDesc('Show the length and task progress of each section next to its header.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.showBadges)
+                .onChange(async (value) => {
+                    this.plugin.settings.showBadges = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        const metrics: [keyof BadgeMetrics, string][] = [
+            ["words", "Word Count"],
+            ["characters", "Character Count"],
+            ["readingTime", "Reading Time"],
+            ["tasks", "Task Progress"]
+        ];
+        metrics.forEach(([metric, name]) => {
+            new Setting(containerEl)
+                .setName(name)
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.badgeMetrics[metric])
+                    .onChange(async (value) => {
+                        this.plugin.settings.badgeMetrics[metric] = value;
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .setName('Include Subsections')
+            .setDesc('Count the subsections of a section as part of it.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.badgeIncludeChildren)
+                .onChange(async (value) => {
+                    this.plugin.settings.badgeIncludeChildren = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Reading Speed')
+            .setDesc('Words per minute used to estimate reading time.')
+            .addText(text => text
+                .setPlaceholder('200')
+                .setValue(String(this.plugin.settings.readingSpeed))
+                .onChange(async (value) => {
+                    const speed = parseInt(value, 10);
+                    this.plugin.settings.readingSpeed = isNaN(speed) || speed < 1 ? 200 : speed;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Word Limits')
+            .setDesc('Highlight sections longer than these limits. Comma-separated word counts for H1 to H6, 0 for no limit.')
+            .addText(text => text
+                .setPlaceholder('0, 2000, 800, 400, 0, 0')
+                .setValue(this.plugin.settings.sectionWordLimits.join(", "))
+                .onChange(async (value) => {
+                    const limits = value.split(",").map(v => parseInt(v.trim(), 10));
+                    this.plugin.settings.sectionWordLimits = [0, 1, 2, 3, 4, 5].map(i => isNaN(limits[i]) ? 0 : Math.max(0, limits[i]));
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Extract Section' });
+
+        new Setting(containerEl)
+            .setName('Extract Folder')
+            .setDesc('Folder for extracted notes. Leave empty to use the folder of the original note.')
+            .addText(text => text
+                .setPlaceholder('Same folder as note')
+                .setValue(this.plugin.settings.extractFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.extractFolder = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Extracted Note Name')
+            .setDesc('File name template for extracted notes. Available tokens: {{heading}}, {{note}}, {{date}}.')
+            .addText(text => text
+                .setPlaceholder('{{heading}}')
+                .setValue(this.plugin.settings.extractFileNameTemplate)
+                .onChange(async (value) => {
+                    this.plugin.settings.extractFileNameTemplate = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Leave Behind')
+            .setDesc('What replaces an extracted section in the original note.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({ link: 'Link', embed: 'Embed' })
+                .setValue(this.plugin.settings.extractLinkStyle)
+                .onChange(async (value) => {
+                    this.plugin.settings.extractLinkStyle = value as "link" | "embed";
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Merging' });
+        containerEl.createEl('p', { text: 'Defaults for every merge. "Merge Some Folder Notes" lets you change these for a single merge.' });
+        renderMergeFormatSettings(containerEl, this.plugin.settings.mergeFormat, async () => {
+            await this.plugin.saveSettings();
+        });
+        renderPostMergeSettings(containerEl, this.plugin.settings.postMerge, async () => {
+            await this.plugin.saveSettings();
+        });
+
+        new Setting(containerEl)
+            .setName('Recursive Merge Depth')
+            .setDesc('How many levels of subfolders "Merge Folder Notes Recursively" walks into. 0 means no limit.')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.recursiveMergeMaxDepth))
+                .onChange(async (value) => {
+                    const depth = parseInt(value, 10);
+                    this.plugin.settings.recursiveMergeMaxDepth = isNaN(depth) || depth < 0 ? 0 : depth;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Recursive Merge Exclusions')
+            .setDesc('Folders to skip, one glob pattern per line. Patterns without "/" match folder names (e.g. "archive*"), others match full paths (e.g. "Projects/**/old").')
+            .addTextArea(text => text
+                .setValue(this.plugin.settings.recursiveMergeExclude.join("\n"))
+                .onChange(async (value) => {
+                    this.plugin.settings.recursiveMergeExclude = value.split("\n").map(line => line.trim()).filter(line => line.length > 0);
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('h3', { text: 'Custom Actions' });
+        containerEl.createEl('p', { text: 'Your own section actions. Each one gets a button next to headers of the chosen levels and a command. Buttons appear in the order below, built-in ones included; the toggles above still decide which built-in buttons are shown.' });
+
+        const actions = this.plugin.settings.customActions;
+        const order = this.plugin.buttonOrder();
+        order.forEach((key, index) => {
+            const move = async (offset: number) => {
+                order.splice(index + offset, 0, order.splice(index, 1)[0]);
+                this.plugin.settings.buttonOrder = order;
+                await this.plugin.saveSettings();
+                this.display();
+            };
+            const action = actions.find(a => `custom-${a.id}` === key);
+            const setting = new Setting(containerEl)
+                .setName(action ? action.name : BUILT_IN_BUTTONS[key])
+                .setDesc(action ? describeCustomAction(action) : 'Built-in')
+                .addExtraButton(button => button
+                    .setIcon('arrow-up')
+                    .setTooltip('Move up')
+                    .setDisabled(index === 0)
+                    .onClick(() => index > 0 && move(-1)))
+                .addExtraButton(button => button
+                    .setIcon('arrow-down')
+                    .setTooltip('Move down')
+                    .setDisabled(index === order.length - 1)
+                    .onClick(() => index < order.length - 1 && move(1)));
+            if (!action) return;
+
+            setting
+                .addExtraButton(button => button
+                    .setIcon('pencil')
+                    .setTooltip('Edit')
+                    .onClick(() => {
+                        new CustomActionModal(this.app, action, async (edited) => {
+                            actions[actions.indexOf(action)] = edited;
+                            await this.plugin.saveSettings();
+                            this.plugin.removeCustomActionCommand(action);
+                            this.plugin.addCustomActionCommand(edited);
+                            this.display();
+                        }).open();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete')
+                    .onClick(async () => {
+                        actions.splice(actions.indexOf(action), 1);
+                        this.plugin.settings.buttonOrder = order.filter(other => other !== key);
+                        await this.plugin.saveSettings();
+                        this.plugin.removeCustomActionCommand(action);
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add Action')
+                .setCta()
+                .onClick(() => {
+                    new CustomActionModal(this.app, createCustomAction('New action'), async (action) => {
+                        actions.push(action);
+                        await this.plugin.saveSettings();
+                        this.plugin.addCustomActionCommand(action);
+                        this.display();
+                    }).open();
+                }));
+
+        containerEl.createEl('h3', { text: 'Merge Presets' });
+        containerEl.createEl('p', { text: 'Saved merges you can run from the command palette, or from the folder menu for folder presets.' });
+
+        this.plugin.settings.mergePresets.forEach((preset, index) => {
+            new Setting(containerEl)
+                .setName(preset.name)
+                .setDesc(describeMergePreset(preset))
+                .addExtraButton(button => button
+                    .setIcon('pencil')
+                    .setTooltip('Edit')
+                    .onClick(() => {
+                        new MergePresetModal(this.app, preset, async (edited) => {
+                            this.plugin.settings.mergePresets[index] = edited;
+                            await this.plugin.saveSettings();
+                            this.plugin.removeMergePresetCommand(preset);
+                            this.plugin.addMergePresetCommand(edited);
+                            this.display();
+                        }).open();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete')
+                    .onClick(async () => {
+                        this.plugin.settings.mergePresets.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.plugin.removeMergePresetCommand(preset);
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add Preset')
+                .setCta()
+                .onClick(() => {
+                    new MergePresetModal(this.app, createMergePreset('New preset'), async (preset) => {
+                        this.plugin.settings.mergePresets.push(preset);
+                        await this.plugin.saveSettings();
+                        this.plugin.addMergePresetCommand(preset);
+                        this.display();
+                    }).open();
+                }));
+    }
+}
+
+interface SplitNoteOptions {
+    level: number;
+    folder: string;
+    keepHeadings: boolean;
+    numbered: boolean;
+    replaceWithIndex: boolean;
+}
+
+class SplitNoteModal extends Modal {
+    file: TFile;
+    options: SplitNoteOptions;
+    onSplit: (options: SplitNoteOptions) => void;
+
+    constructor(app: App, file: TFile, onSplit: (options: SplitNoteOptions) => void) {
+        super(app);
+        this.file = file;
+        this.onSplit = onSplit;
+        const parentPath = file.parent && file.parent.path !== "/" ? `${file.parent.path}/` : "";
+        this.options = {
+            level: 2,
+            folder: `${parentPath}${file.basename}`,
+            keepHeadings: true,
+            numbered: true,
+            replaceWithIndex: false
+        };
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl("h2", { text: "Split Note by Heading" });
+        contentEl.createEl("p", { text: `Create one note per section of ${this.file.name}.` });
+
+        new Setting(contentEl)
+            .setName("Heading level")
+            .setDesc("Split at every heading of this level or higher.")
+            .addDropdown(dropdown => dropdown
+                .addOptions({ "1": "H1", "2": "H2", "3": "H3", "4": "H4", "5": "H5", "6": "H6" })
+                .setValue(String(this.options.level))
+                .onChange(value => this.options.level = Number(value)));
+
+        new Setting(contentEl)
+            .setName("Destination folder")
+            .addText(text => text
+                .setValue(this.options.folder)
+                .onChange(value => this.options.folder = value));
+
+        new Setting(contentEl)
+            .setName("Keep headings")
+            .setDesc("Keep each section's heading at the top of its new note.")
+            .addToggle(toggle => toggle
+                .setValue(this.options.keepHeadings)
+                .onChange(value => this.options.keepHeadings = value));
+
+        new Setting(contentEl)
+            .setName("Number notes")
+            .setDesc("Prefix names with their position so merging them back keeps the original order.")
+            .addToggle(toggle => toggle
+                .setValue(this.options.numbered)
+                .onChange(value => this.options.numbered = value));
+
+        new Setting(contentEl)
+            .setName("Turn original into index")
+            .setDesc("Replace the original note with a list of links to the new notes.")
+            .addToggle(toggle => toggle
+                .setValue(this.options.replaceWithIndex)
+                .onChange(value => this.options.replaceWithIndex = value));
+
+        const buttonContainer = contentEl.createDiv({ cls: "merge-notes-buttons" });
+        buttonContainer.style.marginTop = "1rem";
+        buttonContainer.style.display = "flex";
+        buttonContainer.style.justifyContent = "flex-end";
+        buttonContainer.style.gap = "10px";
+
+        const cancelButton = buttonContainer.createEl("button", { text: "Cancel" });
+        cancelButton.onclick = () => this.close();
+
+        const splitButton = buttonContainer.createEl("button", { text: "Split", cls: "mod-cta" });
+        splitButton.onclick = () => {
+            this.onSplit(this.options);
+            this.close();
+        };
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+class MergePresetSuggestModal extends FuzzySuggestModal<MergePreset> {
+    presets: MergePreset[];
+    onChoose: (preset: MergePreset) => void;
+
+    constructor(app: App, presets: MergePreset[], onChoose: (preset: MergePreset) => void) {
+        super(app);
+        this.presets = presets;
+        this.onChoose = onChoose;
+        this.setPlaceholder("Run merge preset...");
+    }
+
+    getItems(): MergePreset[] {
+        return this.presets;
+    }
+
+    getItemText(preset: MergePreset): string {
+        return preset.name;
+    }
+
+    onChooseItem(preset: MergePreset) {
+        this.onChoose(preset);
+    }
+}
+
+class CustomActionModal extends Modal {
+    action: CustomAction;
+    onSave: (action: CustomAction) => void;
+
+    constructor(app: App, action: CustomAction, onSave: (action: CustomAction) => void) {
+        super(app);
+        // Edit a copy so cancelling leaves the saved action alone
+        this.action = Object.assign({}, action, { levels: [...action.levels] });
+        this.onSave = onSave;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const action = this.action;
+        contentEl.empty();
+
+        contentEl.createEl("h2", { text: "Custom Action" });
+
+        new Setting(contentEl)
+            .setName("Name")
+            .addText(text => text
+                .setValue(action.name)
+                .onChange(value => action.name = value));
+
+        new Setting(contentEl)
+            .setName("Icon")
+            .setDesc("Name of a Lucide icon, such as wand, quote or list-ordered.")
+            .addText(text => text
+                .setValue(action.icon)
+                .onChange(value => action.icon = value.trim()));
+
+        new Setting(contentEl)
+            .setName("Header levels")
+            .setDesc("Comma-separated levels the action is offered for, e.g. 2, 3. Leave empty for all headers.")
+            .addText(text => text
+                .setPlaceholder("All")
+                .setValue(action.levels.join(", "))
+                .onChange(value => {
+                    action.levels = value.split(",")
+                        .map(level => parseInt(level.trim(), 10))
+                        .filter(level => level >= 1 && level <= 6);
+                }));
 
-            constructor(view: EditorView) {
-                this.decorations = this.buildDecorations(view);
-            }
+        new Setting(contentEl)
+            .setName("Transform")
+            .addDropdown(dropdown => dropdown
+                .addOptions(ACTION_TRANSFORM_LABELS)
+                .setValue(action.transform)
+                .onChange(value => {
+                    action.transform = value as ActionTransform;
+                    this.onOpen();
+                }));
 
-            update(update: ViewUpdate) {
-                if (update.docChanged || update.viewportChanged) {
-                    this.decorations = this.buildDecorations(update.view);
-                }
-            }
+        if (action.transform === "callout") {
+            new Setting(contentEl)
+                .setName("Callout type")
+                .addText(text => text
+                    .setPlaceholder("note")
+                    .setValue(action.calloutType)
+                    .onChange(value => action.calloutType = value));
+
+            new Setting(contentEl)
+                .setName("Callout title")
+                .setDesc("Optional. {{heading}} is replaced by the section's header.")
+                .addText(text => text
+                    .setValue(action.calloutTitle)
+                    .onChange(value => action.calloutTitle = value));
+        } else if (action.transform === "sort-list") {
+            new Setting(contentEl)
+                .setName("Descending")
+                .addToggle(toggle => toggle
+                    .setValue(action.sortDescending)
+                    .onChange(value => action.sortDescending = value));
+        } else if (action.transform === "regex") {
+            new Setting(contentEl)
+                .setName("Pattern")
+                .addText(text => text
+                    .setValue(action.pattern)
+                    .onChange(value => action.pattern = value));
+
+            new Setting(contentEl)
+                .setName("Replacement")
+                .setDesc("Use $1, $2... for groups, \\n for a line break.")
+                .addText(text => text
+                    .setValue(action.replacement)
+                    .onChange(value => action.replacement = value));
+
+            new Setting(contentEl)
+                .setName("Flags")
+                .addText(text => text
+                    .setPlaceholder("g")
+                    .setValue(action.flags)
+                    .onChange(value => action.flags = value.trim()));
+        } else if (action.transform === "append-note") {
+            new Setting(contentEl)
+                .setName("Note")
+                .setDesc("Name or path of the note to append to. It is created if it does not exist.")
+                .addText(text => text
+                    .setValue(action.targetNote)
+                    .onChange(value => action.targetNote = value));
+        }
 
-            buildDecorations(view: EditorView) {
-                const builder = new RangeSetBuilder<Decoration>();
+        const buttonContainer = contentEl.createDiv({ cls: "merge-notes-buttons" });
+        buttonContainer.style.marginTop = "1rem";
+        buttonContainer.style.display = "flex";
+        buttonContainer.style.justifyContent = "flex-end";
+        buttonContainer.style.gap = "10px";
 
-                for (const { from, to } of view.visibleRanges) {
-                    // Iterate through lines in the visible range
-                    for (let pos = from; pos <= to;) {
-                        const line = view.state.doc.lineAt(pos);
-                        const text = line.text;
-
-                        // Check if line is a header
-                        const match = text.match(/^(#+)\s/);
-                        if (match) {
-                            // Add widget
-                            builder.add(
-                                line.to,
-                                line.to,
-                                Decoration.widget({
-                                    widget: new SelectSectionWidget(plugin, line.number - 1),
-                                    side: 1
-                                })
-                            );
-                        }
-                        pos = line.to + 1;
-                    }
+        const cancelButton = buttonContainer.createEl("button", { text: "Cancel" });
+        cancelButton.onclick = () => this.close();
+
+        const saveButton = buttonContainer.createEl("button", { text: "Save", cls: "mod-cta" });
+        saveButton.onclick = () => {
+            if (action.name.trim().length === 0) {
+                new Notice("Please give the action a name.");
+                return;
+            }
+            if (action.transform === "regex") {
+                try {
+                    new RegExp(action.pattern, action.flags);
+                } catch (error) {
+                    new Notice(`Invalid regular expression: ${error instanceof Error ? error.message : error}`);
+                    return;
                 }
-                return builder.finish();
             }
-        },
-        {
-            decorations: v => v.decorations
-        }
-    );
+            this.onSave(action);
+            this.close();
+        };
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
 }
 
-class SelectSectionWidget extends WidgetType {
-    plugin: SelectSectionPlugin;
-    lineNumber: number;
+class MergePresetModal extends Modal {
+    preset: MergePreset;
+    onSave: (preset: MergePreset) => void;
 
-    constructor(plugin: SelectSectionPlugin, lineNumber: number) {
-        super();
-        this.plugin = plugin;
-        this.lineNumber = lineNumber;
+    constructor(app: App, preset: MergePreset, onSave: (preset: MergePreset) => void) {
+        super(app);
+        // Edit a copy so cancelling leaves the saved preset alone
+        this.preset = Object.assign({}, preset, { format: Object.assign({}, preset.format), exclude: [...preset.exclude] });
+        this.onSave = onSave;
     }
 
-    toDOM(view: EditorView): HTMLElement {
-        const container = document.createElement("span");
-        container.addClass("select-section-container");
-        container.addClass("cm-widget"); // Helper class
-        // Body class handles visibility now
+    onOpen() {
+        const { contentEl } = this;
+        const preset = this.preset;
+        contentEl.empty();
 
-        // Unified DOM Structure
-        container.addClass("select-section-compact");
+        contentEl.createEl("h2", { text: "Merge Preset" });
+
+        new Setting(contentEl)
+            .setName("Name")
+            .addText(text => text
+                .setValue(preset.name)
+                .onChange(value => preset.name = value));
+
+        new Setting(contentEl)
+            .setName("Source")
+            .addDropdown(dropdown => dropdown
+                .addOptions({ folder: "Folder", tag: "Tag", property: "Property" })
+                .setValue(preset.source)
+                .onChange(value => {
+                    preset.source = value as MergeSource;
+                    this.onOpen();
+                }));
 
-        const triggerBtn = container.createSpan({ cls: "select-section-btn select-section-compact-trigger" });
-        setIcon(triggerBtn, "more-horizontal");
-        triggerBtn.ariaLabel = "Show Actions";
+        if (preset.source === "folder") {
+            new Setting(contentEl)
+                .setName("Folder")
+                .setDesc("Running the preset from a folder's menu uses that folder instead.")
+                .addText(text => text
+                    .setPlaceholder("/")
+                    .setValue(preset.folder)
+                    .onChange(value => preset.folder = value));
+
+            new Setting(contentEl)
+                .setName("Include subfolders")
+                .setDesc("Merge recursively, with folder names as headings. Notes are then ordered by name.")
+                .addToggle(toggle => toggle
+                    .setValue(preset.recursive)
+                    .onChange(value => preset.recursive = value));
+        } else if (preset.source === "tag") {
+            new Setting(contentEl)
+                .setName("Tag")
+                .addText(text => text
+                    .setPlaceholder("#project/alpha")
+                    .setValue(preset.tag)
+                    .onChange(value => preset.tag = value.trim()));
+        } else {
+            new Setting(contentEl)
+                .setName("Property")
+                .addText(text => text
+                    .setValue(preset.propertyKey)
+                    .onChange(value => preset.propertyKey = value.trim()));
+
+            new Setting(contentEl)
+                .setName("Value")
+                .setDesc("Leave empty to match every note that has the property.")
+                .addText(text => text
+                    .setValue(preset.propertyValue)
+                    .onChange(value => preset.propertyValue = value));
+        }
 
-        const actionsContainer = container.createSpan({ cls: "select-section-compact-actions" });
+        new Setting(contentEl)
+            .setName("Exclude")
+            .setDesc("Notes to leave out, one glob pattern per line, matched against the note name or, with a \"/\", its path.")
+            .addTextArea(text => text
+                .setValue(preset.exclude.join("\n"))
+                .onChange(value => preset.exclude = value.split("\n").map(line => line.trim()).filter(line => line.length > 0)));
+
+        new Setting(contentEl)
+            .setName("Order")
+            .addDropdown(dropdown => dropdown
+                .addOptions({ name: "Name", created: "Created time", modified: "Modified time" })
+                .setValue(preset.order)
+                .onChange(value => preset.order = value as MergeOrder))
+            .addToggle(toggle => toggle
+                .setTooltip("Descending")
+                .setValue(preset.descending)
+                .onChange(value => preset.descending = value));
+
+        new Setting(contentEl)
+            .setName("Output folder")
+            .setDesc("Leave empty to write into the source folder.")
+            .addText(text => text
+                .setValue(preset.outputFolder)
+                .onChange(value => preset.outputFolder = value));
+
+        new Setting(contentEl)
+            .setName("File name")
+            .setDesc("Available tokens: {{date}}, {{date:FORMAT}}, {{folder}}, {{preset}}.")
+            .addText(text => text
+                .setValue(preset.fileNameTemplate)
+                .onChange(value => preset.fileNameTemplate = value));
+
+        new Setting(contentEl)
+            .setName("Overwrite output")
+            .setDesc("Replace an existing note with the same name instead of adding a number.")
+            .addToggle(toggle => toggle
+                .setValue(preset.overwrite)
+                .onChange(value => preset.overwrite = value));
 
-        triggerBtn.onclick = (e) => {
-            e.stopPropagation();
-            actionsContainer.classList.toggle("show");
-        };
+        new Setting(contentEl)
+            .setName("Live compilation")
+            .setDesc("Rebuild the output whenever one of the merged notes changes.")
+            .addToggle(toggle => toggle
+                .setValue(preset.live)
+                .onChange(value => preset.live = value));
+
+        const optionsContainer = contentEl.createEl("details", { cls: "merge-notes-options" });
+        optionsContainer.createEl("summary", { text: "Output options" });
+        renderMergeFormatSettings(optionsContainer, preset.format, () => { });
+
+        const buttonContainer = contentEl.createDiv({ cls: "merge-notes-buttons" });
+        buttonContainer.style.marginTop = "1rem";
+        buttonContainer.style.display = "flex";
+        buttonContainer.style.justifyContent = "flex-end";
+        buttonContainer.style.gap = "10px";
 
-        // Close when clicking outside
-        const closeHandler = (e: MouseEvent) => {
-            if (!container.contains(e.target as Node)) {
-                actionsContainer.removeClass("show");
-                document.removeEventListener("click", closeHandler);
+        const cancelButton = buttonContainer.createEl("button", { text: "Cancel" });
+        cancelButton.onclick = () => this.close();
+
+        const saveButton = buttonContainer.createEl("button", { text: "Save", cls: "mod-cta" });
+        saveButton.onclick = () => {
+            if (preset.name.trim().length === 0) {
+                new Notice("Please give the preset a name.");
+                return;
             }
+            this.onSave(preset);
+            this.close();
         };
-        triggerBtn.addEventListener("click", () => {
-            document.addEventListener("click", closeHandler);
-        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
 
-        this.createActionButtons(actionsContainer);
+class NoteSuggestModal extends FuzzySuggestModal<TFile> {
+    onChoose: (file: TFile) => void;
 
-        return container;
+    constructor(app: App, placeholder: string, onChoose: (file: TFile) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder(placeholder);
     }
 
-    createActionButtons(container: HTMLElement) {
-        // Always create buttons, visibility controlled by CSS
-        const selectBtn = container.createSpan({ cls: "select-section-btn select-section-btn-select" });
-        setIcon(selectBtn, "mouse-pointer-click");
-        selectBtn.ariaLabel = "Select and Copy Section";
-        selectBtn.onclick = (e) => {
-            e.stopPropagation(); // Prevent cursor movement
-            const markdownView = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
-            if (markdownView) {
-                this.plugin.selectOrCopySection(markdownView.editor, this.lineNumber, true);
-            }
-        };
+    getItems(): TFile[] {
+        return this.app.vault.getMarkdownFiles();
+    }
 
-        const copyBtn = container.createSpan({ cls: "select-section-btn select-section-btn-copy" });
-        setIcon(copyBtn, "copy");
-        copyBtn.ariaLabel = "Copy Section";
-        copyBtn.onclick = (e) => {
-            e.stopPropagation();
-            const markdownView = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
-            if (markdownView) {
-                this.plugin.selectOrCopySection(markdownView.editor, this.lineNumber, false, true);
-            }
-        };
+    getItemText(file: TFile): string {
+        return file.path;
+    }
 
-        const selectHeaderBtn = container.createSpan({ cls: "select-section-btn select-section-btn-select-header" });
-        setIcon(selectHeaderBtn, "heading");
-        selectHeaderBtn.ariaLabel = "Select Header Title Only";
-        selectHeaderBtn.onclick = (e) => {
-            e.stopPropagation();
-            const markdownView = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
-            if (markdownView) {
-                this.plugin.selectHeaderOnly(markdownView.editor, this.lineNumber);
-            }
-        };
+    onChooseItem(file: TFile) {
+        this.onChoose(file);
     }
 }
 
-class SelectSectionSettingTab extends PluginSettingTab {
-    plugin: SelectSectionPlugin;
+class TagSuggestModal extends FuzzySuggestModal<string> {
+    onChoose: (tag: string) => void;
 
-    constructor(app: App, plugin: SelectSectionPlugin) {
-        super(app, plugin);
-        this.plugin = plugin;
+    constructor(app: App, onChoose: (tag: string) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder("Merge notes with tag...");
     }
 
-    display(): void {
-        const { containerEl } = this;
+    getItems(): string[] {
+        return allTags(this.app);
+    }
 
-        containerEl.empty();
+    getItemText(tag: string): string {
+        return `#${tag}`;
+    }
 
-        containerEl.createEl('h2', { text: 'Select and Copy Section Settings' });
+    onChooseItem(tag: string) {
+        this.onChoose(tag);
+    }
+}
 
-        new Setting(containerEl)
-            .setName('Always Show Icons')
-            .setDesc('If disabled, icons will only show when hovering over the header.')
-            .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.alwaysShowIcons)
-                .onChange(async (value) => {
-                    this.plugin.settings.alwaysShowIcons = value;
-                    await this.plugin.saveSettings();
-                }));
+class PropertyQueryModal extends Modal {
+    key = "";
+    value = "";
+    onSubmit: (key: string, value: string) => void;
 
-        new Setting(containerEl)
-            .setName('Include Header in Selection')
-            .setDesc('If enabled, the header itself will be included in the selection/copy.')
-            .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.includeHeader)
-                .onChange(async (value) => {
-                    this.plugin.settings.includeHeader = value;
-                    await this.plugin.saveSettings();
-                }));
+    constructor(app: App, onSubmit: (key: string, value: string) => void) {
+        super(app);
+        this.onSubmit = onSubmit;
+    }
 
-        new Setting(containerEl)
-            .setName('Show Select Button')
-            .setDesc('Show the button to select the section content.')
-            .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.showSelectButton)
-                .onChange(async (value) => {
-                    this.plugin.settings.showSelectButton = value;
-                    await this.plugin.saveSettings();
-                }));
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
 
-        new Setting(containerEl)
-            .setName('Show Copy Button')
-            .setDesc('Show the button to copy the section content.')
-            .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.showCopyButton)
-                .onChange(async (value) => {
-                    this.plugin.settings.showCopyButton = value;
-                    await this.plugin.saveSettings();
-                }));
+        contentEl.createEl("h2", { text: "Merge Notes by Property" });
 
-        new Setting(containerEl)
-            .setName('Show Select Header Button')
-            .setDesc('Show the button to select only the header title.')
-            .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.showSelectHeaderButton)
-                .onChange(async (value) => {
-                    this.plugin.settings.showSelectHeaderButton = value;
-                    await this.plugin.saveSettings();
-                }));
+        new Setting(contentEl)
+            .setName("Property")
+            .addText(text => text
+                .setPlaceholder("status")
+                .onChange(value => this.key = value.trim()));
 
-        new Setting(containerEl)
-            .setName('Compact Buttons')
-            .setDesc('Stack buttons into a single toggle menu.')
-            .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.compactButtons)
-                .onChange(async (value) => {
-                    this.plugin.settings.compactButtons = value;
-                    await this.plugin.saveSettings();
-                }));
+        new Setting(contentEl)
+            .setName("Value")
+            .setDesc("Leave empty to match every note that has the property.")
+            .addText(text => text
+                .setPlaceholder("active")
+                .onChange(value => this.value = value));
+
+        const buttonContainer = contentEl.createDiv({ cls: "merge-notes-buttons" });
+        buttonContainer.style.marginTop = "1rem";
+        buttonContainer.style.display = "flex";
+        buttonContainer.style.justifyContent = "flex-end";
+        buttonContainer.style.gap = "10px";
+
+        const cancelButton = buttonContainer.createEl("button", { text: "Cancel" });
+        cancelButton.onclick = () => this.close();
+
+        const findButton = buttonContainer.createEl("button", { text: "Find Notes", cls: "mod-cta" });
+        findButton.onclick = () => {
+            if (this.key.length === 0) {
+                new Notice("Please enter a property name.");
+                return;
+            }
+            this.close();
+            this.onSubmit(this.key, this.value);
+        };
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
     }
 }
 
 class MergeNotesModal extends Modal {
+    title: string;
     files: TFile[];
     selectedFiles: Set<TFile>;
-    onMerge: (files: TFile[]) => void;
+    format: MergeFormatOptions;
+    postMerge: PostMergeOptions;
+    outputFolder: string;
+    outputName: string;
+    live = false;
+    byHeading = false;
+    headingLevel = 2;
+    headingOrder: string[] = [];
+    headingGroupsEl: HTMLElement | null = null;
+    onMerge: (files: TFile[], options: MergeOptions) => void;
     dragStartIndex: number | null = null;
+    headingDragIndex: number | null = null;
 
-    constructor(app: App, files: TFile[], onMerge: (files: TFile[]) => void) {
+    constructor(app: App, title: string, files: TFile[], defaults: { mergeFormat: MergeFormatOptions, postMerge: PostMergeOptions, outputFolder: string, outputName: string }, onMerge: (files: TFile[], options: MergeOptions) => void) {
         super(app);
+        this.title = title;
         this.files = files;
+        this.outputFolder = defaults.outputFolder;
+        this.outputName = defaults.outputName;
         this.selectedFiles = new Set(files);
+        // Changes made in the modal only apply to this merge
+        this.format = Object.assign({}, defaults.mergeFormat);
+        this.postMerge = Object.assign({}, defaults.postMerge);
         this.onMerge = onMerge;
     }
 
@@ -582,12 +3625,49 @@ class MergeNotesModal extends Modal {
         const { contentEl } = this;
         contentEl.empty();
 
-        contentEl.createEl("h2", { text: "Merge Some Folder Notes" });
+        contentEl.createEl("h2", { text: this.title });
         contentEl.createEl("p", { text: "Select files to merge and drag to reorder." });
 
         const listContainer = contentEl.createDiv({ cls: "merge-notes-list" });
         this.renderList(listContainer);
 
+        new Setting(contentEl)
+            .setName("Output folder")
+            .addText(text => text
+                .setPlaceholder("/")
+                .setValue(this.outputFolder)
+                .onChange(value => this.outputFolder = value));
+
+        new Setting(contentEl)
+            .setName("File name")
+            .addText(text => text
+                .setValue(this.outputName)
+                .onChange(value => this.outputName = value));
+
+        new Setting(contentEl)
+            .setName("Live compilation")
+            .setDesc("Rebuild the output whenever one of the merged notes changes. Source notes are always kept.")
+            .addToggle(toggle => toggle
+                .setValue(this.live)
+                .onChange(value => this.live = value));
+
+        new Setting(contentEl)
+            .setName("Merge by heading")
+            .setDesc("Put the sections with the same heading from every note together, each labelled with the note it comes from, instead of joining whole notes.")
+            .addToggle(toggle => toggle
+                .setValue(this.byHeading)
+                .onChange(value => {
+                    this.byHeading = value;
+                    this.renderHeadingGroups();
+                }));
+        this.headingGroupsEl = contentEl.createDiv({ cls: "merge-notes-heading-groups" });
+        this.renderHeadingGroups();
+
+        const optionsContainer = contentEl.createEl("details", { cls: "merge-notes-options" });
+        optionsContainer.createEl("summary", { text: "Merge options" });
+        renderMergeFormatSettings(optionsContainer, this.format, () => { });
+        renderPostMergeSettings(optionsContainer, this.postMerge, () => { });
+
         const buttonContainer = contentEl.createDiv({ cls: "merge-notes-buttons" });
         buttonContainer.style.marginTop = "1rem";
         buttonContainer.style.display = "flex";
@@ -604,7 +3684,14 @@ class MergeNotesModal extends Modal {
                 new Notice("Please select at least one file to merge.");
                 return;
             }
-            this.onMerge(filesToMerge);
+            this.onMerge(filesToMerge, {
+                outputFolder: this.outputFolder,
+                outputName: this.outputName,
+                format: this.format,
+                postMerge: this.postMerge,
+                live: this.live,
+                byHeading: this.byHeading ? { level: this.headingLevel, order: [...this.headingOrder] } : undefined
+            });
             this.close();
         };
     }
@@ -648,6 +3735,7 @@ class MergeNotesModal extends Modal {
                     this.files.splice(index, 0, movedItem);
                     // Re-render
                     this.renderList(container);
+                    this.renderHeadingGroups();
                 }
                 this.dragStartIndex = null;
             };
@@ -667,6 +3755,7 @@ class MergeNotesModal extends Modal {
                 } else {
                     this.selectedFiles.delete(file);
                 }
+                this.renderHeadingGroups();
             };
 
             // Filename
@@ -680,6 +3769,88 @@ class MergeNotesModal extends Modal {
         });
     }
 
+    // Headings of the selected notes at the chosen level, keeping the order the user dragged them into
+    renderHeadingGroups() {
+        const container = this.headingGroupsEl;
+        if (!container) return;
+        container.empty();
+        if (!this.byHeading) return;
+
+        const headings = this.files
+            .filter(file => this.selectedFiles.has(file))
+            .flatMap(file => this.app.metadataCache.getFileCache(file)?.headings ?? []);
+        const names = groupHeadings(headings, this.headingLevel);
+        const kept = this.headingOrder.filter(name => names.some(other => other.toLowerCase() === name.toLowerCase()));
+        this.headingOrder = [...kept, ...names.filter(name => !kept.some(other => other.toLowerCase() === name.toLowerCase()))];
+
+        new Setting(container)
+            .setName("Heading level")
+            .setDesc("Sections with headings of this level are matched across the notes.")
+            .addDropdown(dropdown => dropdown
+                .addOptions({ "1": "H1", "2": "H2", "3": "H3", "4": "H4", "5": "H5", "6": "H6" })
+                .setValue(String(this.headingLevel))
+                .onChange(value => {
+                    this.headingLevel = Number(value);
+                    this.renderHeadingGroups();
+                }));
+
+        if (this.headingOrder.length === 0) {
+            container.createEl("p", { text: `The selected notes have no H${this.headingLevel} headings.` });
+            return;
+        }
+        container.createEl("p", { text: "Drag the headings into the order they should appear in. Headings found in only some of the notes are included too." });
+
+        const list = container.createDiv({ cls: "merge-notes-list" });
+        this.headingOrder.forEach((name, index) => {
+            const item = list.createDiv({ cls: "merge-note-item" });
+            item.style.display = "flex";
+            item.style.alignItems = "center";
+            item.style.padding = "5px";
+            item.style.borderBottom = "1px solid var(--background-modifier-border)";
+            item.style.cursor = "grab";
+            item.draggable = true;
+
+            item.ondragstart = (e) => {
+                this.headingDragIndex = index;
+                e.dataTransfer?.setData("text/plain", index.toString());
+                item.style.opacity = "0.5";
+            };
+
+            item.ondragover = (e) => {
+                e.preventDefault(); // Allow dropping
+                item.style.background = "var(--background-modifier-hover)";
+            };
+
+            item.ondragleave = () => {
+                item.style.background = "";
+            };
+
+            item.ondrop = (e) => {
+                e.preventDefault();
+                item.style.background = "";
+                const dragIndex = this.headingDragIndex;
+                if (dragIndex !== null && dragIndex !== index) {
+                    const moved = this.headingOrder.splice(dragIndex, 1)[0];
+                    this.headingOrder.splice(index, 0, moved);
+                    this.renderHeadingGroups();
+                }
+                this.headingDragIndex = null;
+            };
+
+            item.ondragend = () => {
+                item.style.opacity = "1";
+                this.headingDragIndex = null;
+            };
+
+            item.createSpan({ text: name });
+
+            const handle = item.createSpan({ cls: "merge-note-handle" });
+            setIcon(handle, "grip-vertical");
+            handle.style.marginLeft = "auto";
+            handle.style.color = "var(--text-muted)";
+        });
+    }
+
     onClose() {
         const { contentEl } = this;
         contentEl.empty();
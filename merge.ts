@@ -0,0 +1,471 @@
+// Collecting and ordering notes for merging.
+
+import { App, getAllTags, moment, parseYaml, stringifyYaml, TAbstractFile, TFile, TFolder } from 'obsidian';
+import type { LinkEdit } from './links';
+import { buildSectionIndex, linesOf } from './sections';
+import { shiftAllHeadings } from './restructure';
+
+export type FrontmatterMode = "keep" | "strip" | "combine";
+export type FrontmatterConflict = "first" | "last" | "list";
+
+// How merged notes are laid out in the output
+export interface MergeFormatOptions {
+    insertTitles: boolean; // Each note's name as a heading above its content
+    titleLevel: number;
+    demoteHeadings: number; // Levels to push every heading inside the notes down by
+    frontmatter: FrontmatterMode;
+    frontmatterConflict: FrontmatterConflict; // Which value wins when combined notes disagree on a key
+    separator: string; // Placed on its own line between notes, "" for none
+    expandEmbeds: boolean; // Replace embeds with the content they show
+}
+
+export const DEFAULT_MERGE_FORMAT: MergeFormatOptions = {
+    insertTitles: false,
+    titleLevel: 1,
+    demoteHeadings: 0,
+    frontmatter: "keep",
+    frontmatterConflict: "list",
+    separator: "",
+    expandEmbeds: false
+};
+
+export type PostMergeAction = "keep" | "archive" | "trash";
+
+// What happens to the source notes once the merged note exists
+export interface PostMergeOptions {
+    action: PostMergeAction;
+    archiveFolder: string;
+    redirectBacklinks: boolean; // Point links to the sources at the merged note instead
+}
+
+export const DEFAULT_POST_MERGE: PostMergeOptions = {
+    action: "keep",
+    archiveFolder: "Archive",
+    redirectBacklinks: false
+};
+
+export interface MergeOptions {
+    outputFolder?: string; // Defaults to the folder of the first note
+    outputName?: string; // File name without extension, a number is added if it is taken
+    overwrite?: boolean; // Replace an existing note with the output name instead of numbering
+    live?: boolean; // Keep the output up to date as the source notes change
+    // Heading lines inserted before a file, used for folder names in recursive merges
+    folderHeadings?: Map<TFile, string[]>;
+    format?: MergeFormatOptions;
+    postMerge?: PostMergeOptions;
+    byHeading?: HeadingGroups; // Group same-named sections across the notes instead of joining whole notes
+    preset?: string; // Id of the merge preset that made the output, written to its frontmatter
+}
+
+// Frontmatter key marking the output of a merge preset, so later runs leave it out of their sources
+export const PRESET_KEY = "sectcy-preset";
+
+// How "Merge by heading" groups sections
+export interface HeadingGroups {
+    level: number; // Level of the headings that are matched across notes
+    order: string[]; // Output order; headings not listed follow in the order they first appear
+}
+
+// Everything a merge changed, so "Undo last merge" can put it back
+export interface MergeJournalEntry {
+    timestamp: number;
+    outputPath: string;
+    outputHash: string; // Undo leaves the output alone once it no longer matches this
+    overwritten?: string; // Previous content of the output note when the merge replaced it
+    moved: { from: string, to: string }[];
+    trashed: { path: string, content: string }[];
+    relinked: { path: string, hash: string, edits: LinkEdit[] }[]; // Redirected links, undone only while the note still matches hash
+}
+
+export interface MergePart {
+    title: string;
+    content: string;
+    headings?: string[];
+}
+
+export interface RecursiveMergeOptions {
+    maxDepth: number; // Levels of subfolders to include, 0 for no limit
+    exclude: string[]; // Glob patterns for folders to skip
+    // Order of the notes within each folder, by name when not given. Folders stay in name order
+    // so every folder's notes stay together under its heading.
+    order?: MergeOrder;
+    descending?: boolean;
+}
+
+// Natural sort order used by every merge ("Note 2" before "Note 10")
+export function compareByName(a: TFile | TFolder, b: TFile | TFolder): number {
+    return a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+export function markdownFilesIn(folder: TFolder): TFile[] {
+    return folder.children
+        .filter((file): file is TFile => file instanceof TFile && file.extension === "md")
+        .sort(compareByName);
+}
+
+// Markdown notes in a file explorer selection; selected folders contribute their direct notes
+export function markdownFilesInSelection(selection: TAbstractFile[]): TFile[] {
+    const files: TFile[] = [];
+    for (const item of selection) {
+        const candidates = item instanceof TFolder ? markdownFilesIn(item) : [item];
+        for (const file of candidates) {
+            if (file instanceof TFile && file.extension === "md" && !files.includes(file)) files.push(file);
+        }
+    }
+    return files.sort(compareByName);
+}
+
+// Every tag used in the vault, without the leading "#"
+export function allTags(app: App): string[] {
+    const tags = new Set<string>();
+    for (const file of app.vault.getMarkdownFiles()) {
+        const cache = app.metadataCache.getFileCache(file);
+        (cache ? getAllTags(cache) ?? [] : []).forEach(tag => tags.add(tag.replace(/^#/, "")));
+    }
+    return [...tags].sort((a, b) => a.localeCompare(b));
+}
+
+// Notes carrying the tag or one of its nested tags ("project" also matches "project/alpha")
+export function filesWithTag(app: App, tag: string): TFile[] {
+    const wanted = tag.replace(/^#/, "").toLowerCase();
+    return app.vault.getMarkdownFiles()
+        .filter(file => {
+            const cache = app.metadataCache.getFileCache(file);
+            return (cache ? getAllTags(cache) ?? [] : []).some(found => {
+                const name = found.replace(/^#/, "").toLowerCase();
+                return name === wanted || name.startsWith(`${wanted}/`);
+            });
+        })
+        .sort(compareByName);
+}
+
+// Notes whose frontmatter property equals the value, or contains it for lists.
+// An empty value matches every note that has the property.
+export function filesWithProperty(app: App, key: string, value: string): TFile[] {
+    const wanted = value.trim().toLowerCase();
+    return app.vault.getMarkdownFiles()
+        .filter(file => {
+            const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+            if (!frontmatter || !(key in frontmatter)) return false;
+            if (wanted.length === 0) return true;
+            const values: unknown[] = Array.isArray(frontmatter[key]) ? frontmatter[key] : [frontmatter[key]];
+            return values.some(found => String(found).toLowerCase() === wanted);
+        })
+        .sort(compareByName);
+}
+
+function globToRegExp(pattern: string): RegExp {
+    let source = "";
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === "*" && pattern[i + 1] === "*" && pattern[i + 2] === "/") {
+            // "**/" spans zero or more whole folders, so "a/**/b" also matches "a/b"
+            source += "(?:.*/)?";
+            i += 2;
+        } else if (char === "*" && pattern[i + 1] === "*") {
+            source += ".*";
+            i++;
+        } else if (char === "*") {
+            source += "[^/]*";
+        } else if (char === "?") {
+            source += "[^/]";
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${source}$`, "i");
+}
+
+// Patterns without a slash match the file or folder name, others the full path
+export function matchesGlob(file: TAbstractFile, patterns: string[]): boolean {
+    return patterns.some(pattern => {
+        const regex = globToRegExp(pattern.replace(/^\/+|\/+$/g, ""));
+        return pattern.includes("/") ? regex.test(file.path) : regex.test(file.name);
+    });
+}
+
+// Walks subfolders depth-first, files of a folder before its subfolders.
+// Each subfolder's name becomes a heading in front of its first note.
+export function collectFolderFilesRecursive(root: TFolder, options: RecursiveMergeOptions): { files: TFile[], folderHeadings: Map<TFile, string[]> } {
+    const files: TFile[] = [];
+    const folderHeadings = new Map<TFile, string[]>();
+    const exclude = options.exclude.map(pattern => pattern.trim()).filter(pattern => pattern.length > 0);
+
+    const walk = (folder: TFolder, depth: number, pendingHeadings: string[]) => {
+        const headings = depth === 0
+            ? pendingHeadings
+            : [...pendingHeadings, `${"#".repeat(Math.min(depth, 6))} ${folder.name}`];
+
+        const folderFiles = sortFiles(markdownFilesIn(folder), options.order ?? "name", options.descending ?? false);
+        if (folderFiles.length > 0) {
+            if (headings.length > 0) folderHeadings.set(folderFiles[0], headings);
+            files.push(...folderFiles);
+        }
+
+        if (options.maxDepth > 0 && depth >= options.maxDepth) return;
+
+        // Headings of folders without notes of their own carry over to the first nested note
+        let carried = folderFiles.length > 0 ? [] : headings;
+        folder.children
+            .filter((child): child is TFolder => child instanceof TFolder && !matchesGlob(child, exclude))
+            .sort(compareByName)
+            .forEach(child => {
+                const before = files.length;
+                walk(child, depth + 1, carried);
+                if (files.length > before) carried = [];
+            });
+    };
+
+    walk(root, 0, []);
+    return { files, folderHeadings };
+}
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+export function splitFrontmatter(content: string): { frontmatter: string | null, body: string } {
+    const match = content.match(FRONTMATTER);
+    if (!match) return { frontmatter: null, body: content };
+    return { frontmatter: match[1], body: content.slice(match[0].length).replace(/^\s*\n/, "") };
+}
+
+// Sets frontmatter properties, creating the block if the content has none
+export function withFrontmatter(content: string, properties: Record<string, unknown>): string {
+    const { frontmatter, body } = splitFrontmatter(content);
+    let data: Record<string, unknown> = {};
+    if (frontmatter !== null) {
+        try {
+            const parsed = parseYaml(frontmatter);
+            if (parsed && typeof parsed === "object") data = parsed;
+        } catch (error) {
+            console.error("Could not parse frontmatter:", error);
+        }
+    }
+    Object.assign(data, properties);
+    return `---\n${stringifyYaml(data)}---\n\n${body}`;
+}
+
+// Short fingerprint used to notice hand edits to generated notes
+export function hashContent(content: string): string {
+    let hash = 5381;
+    for (let i = 0; i < content.length; i++) {
+        hash = ((hash << 5) + hash + content.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function combineValues(existing: unknown, incoming: unknown): unknown {
+    const values = Array.isArray(existing) ? [...existing] : [existing];
+    for (const value of Array.isArray(incoming) ? incoming : [incoming]) {
+        if (!values.some(other => sameValue(other, value))) values.push(value);
+    }
+    return values.length === 1 ? values[0] : values;
+}
+
+export function combineFrontmatter(blocks: Record<string, unknown>[], conflict: FrontmatterConflict): Record<string, unknown> {
+    const combined: Record<string, unknown> = {};
+    for (const block of blocks) {
+        for (const [key, value] of Object.entries(block)) {
+            if (!(key in combined) || conflict === "last") {
+                combined[key] = value;
+            } else if (conflict === "list" && !sameValue(combined[key], value)) {
+                combined[key] = combineValues(combined[key], value);
+            }
+        }
+    }
+    return combined;
+}
+
+// Lays out the notes of a merge according to the format options
+export function buildMergedContent(parts: MergePart[], format: MergeFormatOptions): string {
+    const frontmatterBlocks: Record<string, unknown>[] = [];
+
+    const blocks = parts.map(part => {
+        let content = part.content;
+        // Kept frontmatter goes above the note's title and folder headings, where it still reads as YAML
+        let keptFrontmatter: string | null = null;
+        const addsHeadings = format.insertTitles || (part.headings ?? []).length > 0;
+        if (format.frontmatter !== "keep" || format.demoteHeadings > 0 || addsHeadings) {
+            const { frontmatter, body } = splitFrontmatter(content);
+            if (frontmatter !== null && format.frontmatter === "combine") {
+                try {
+                    const parsed = parseYaml(frontmatter);
+                    if (parsed && typeof parsed === "object") frontmatterBlocks.push(parsed);
+                } catch (error) {
+                    console.error(`Could not parse frontmatter of ${part.title}:`, error);
+                }
+            }
+
+            content = body;
+            if (format.demoteHeadings > 0) {
+                const source = linesOf(content);
+                content = shiftAllHeadings(source, buildSectionIndex(source), format.demoteHeadings);
+            }
+            if (frontmatter !== null && format.frontmatter === "keep") {
+                keptFrontmatter = `---\n${frontmatter}\n---`;
+            }
+        }
+
+        const lines = [...(part.headings ?? [])];
+        if (format.insertTitles) {
+            lines.push(`${"#".repeat(Math.min(6, Math.max(1, format.titleLevel)))} ${part.title}`);
+        }
+        lines.push(content);
+        const block = lines.join("\n\n");
+        if (keptFrontmatter === null) return block;
+        return addsHeadings ? `${keptFrontmatter}\n\n${block}` : `${keptFrontmatter}\n${block}`;
+    });
+
+    const separator = format.separator.trim().length > 0 ? `\n\n${format.separator.trim()}\n\n` : "\n\n";
+    let merged = blocks.join(separator);
+
+    if (frontmatterBlocks.length > 0) {
+        const combined = combineFrontmatter(frontmatterBlocks, format.frontmatterConflict);
+        if (Object.keys(combined).length > 0) {
+            merged = `---\n${stringifyYaml(combined)}---\n\n${merged}`;
+        }
+    }
+    return merged;
+}
+
+// A heading's name for grouping, without a trailing block id
+function groupName(title: string): string {
+    return title.replace(/\s\^[\w-]+$/, "").trim();
+}
+
+// Names of the headings at a level, in order and without repeats (ignoring case)
+export function groupHeadings(headings: { heading: string, level: number }[], level: number): string[] {
+    const names = new Map<string, string>();
+    headings
+        .filter(heading => heading.level === level)
+        .forEach(heading => {
+            const name = groupName(heading.heading);
+            if (!names.has(name.toLowerCase())) names.set(name.toLowerCase(), name);
+        });
+    return [...names.values()];
+}
+
+// Collects the sections with the same heading from every note under one heading each.
+// Each note's part is labelled with its title one level down, and headings inside the
+// sections move down a level to make room. Text outside the grouped sections is left out.
+// Frontmatter has no note part of its own to stay with here, so "keep" combines it like
+// "combine", and demoting shifts every heading of the output, group headings included.
+export function buildMergedByHeading(parts: MergePart[], groups: HeadingGroups, format: MergeFormatOptions): string {
+    const frontmatterBlocks: Record<string, unknown>[] = [];
+    const found = new Map<string, { heading: string, blocks: string[] }>(); // Keyed by lower-case name
+
+    for (const part of parts) {
+        const { frontmatter, body } = splitFrontmatter(part.content);
+        if (frontmatter !== null && format.frontmatter !== "strip") {
+            try {
+                const parsed = parseYaml(frontmatter);
+                if (parsed && typeof parsed === "object") frontmatterBlocks.push(parsed);
+            } catch (error) {
+                console.error(`Could not parse frontmatter of ${part.title}:`, error);
+            }
+        }
+
+        // A note with the same heading twice contributes both sections as one part
+        const texts = new Map<string, string[]>();
+        const lines = body.split("\n");
+        buildSectionIndex(linesOf(body))
+            .filter(section => section.level === groups.level)
+            .forEach(section => {
+                const key = groupName(section.title).toLowerCase();
+                if (!found.has(key)) found.set(key, { heading: groupName(section.title), blocks: [] });
+                const source = linesOf(lines.slice(section.bodyStart, section.end + 1).join("\n"));
+                const text = shiftAllHeadings(source, buildSectionIndex(source), 1).trim();
+                if (text.length > 0) texts.set(key, [...(texts.get(key) ?? []), text]);
+            });
+
+        const label = groups.level < 6 ? `${"#".repeat(groups.level + 1)} ${part.title}` : `**${part.title}**`;
+        texts.forEach((sections, key) => found.get(key).blocks.push(`${label}\n\n${sections.join("\n\n")}`));
+    }
+
+    const listed = groups.order.map(name => name.toLowerCase()).filter(key => found.has(key));
+    const keys = [...listed, ...[...found.keys()].filter(key => !listed.includes(key))];
+    const blocks = keys.map(key => {
+        const group = found.get(key);
+        return [`${"#".repeat(groups.level)} ${group.heading}`, ...group.blocks].join("\n\n");
+    });
+
+    const separator = format.separator.trim().length > 0 ? `\n\n${format.separator.trim()}\n\n` : "\n\n";
+    let merged = blocks.join(separator);
+    if (format.demoteHeadings > 0) {
+        const source = linesOf(merged);
+        merged = shiftAllHeadings(source, buildSectionIndex(source), format.demoteHeadings);
+    }
+
+    if (frontmatterBlocks.length > 0) {
+        const combined = combineFrontmatter(frontmatterBlocks, format.frontmatterConflict);
+        if (Object.keys(combined).length > 0) {
+            merged = `---\n${stringifyYaml(combined)}---\n\n${merged}`;
+        }
+    }
+    return merged;
+}
+
+export type MergeSource = "folder" | "tag" | "property";
+export type MergeOrder = "name" | "created" | "modified";
+
+// A named, repeatable merge stored in the plugin settings
+export interface MergePreset {
+    id: string;
+    name: string;
+    source: MergeSource;
+    folder: string;
+    recursive: boolean;
+    tag: string;
+    propertyKey: string;
+    propertyValue: string;
+    exclude: string[]; // Glob patterns for notes to leave out
+    order: MergeOrder;
+    descending: boolean;
+    format: MergeFormatOptions;
+    outputFolder: string; // "" for the source folder
+    fileNameTemplate: string;
+    overwrite: boolean;
+    live: boolean;
+}
+
+export function createMergePreset(name: string): MergePreset {
+    return {
+        id: Date.now().toString(36),
+        name,
+        source: "folder",
+        folder: "",
+        recursive: false,
+        tag: "",
+        propertyKey: "",
+        propertyValue: "",
+        exclude: [],
+        order: "name",
+        descending: false,
+        format: Object.assign({}, DEFAULT_MERGE_FORMAT),
+        outputFolder: "",
+        fileNameTemplate: "{{folder}} {{date}}",
+        overwrite: false,
+        live: false
+    };
+}
+
+export function sortFiles(files: TFile[], order: MergeOrder, descending: boolean): TFile[] {
+    const compare = (a: TFile, b: TFile) => {
+        if (order === "created") return a.stat.ctime - b.stat.ctime;
+        if (order === "modified") return a.stat.mtime - b.stat.mtime;
+        return compareByName(a, b);
+    };
+    return [...files].sort((a, b) => descending ? compare(b, a) : compare(a, b));
+}
+
+// Fills {{date}}, {{date:FORMAT}}, {{folder}} and {{preset}} in an output file name
+export function renderFileNameTemplate(template: string, folder: string, preset: string): string {
+    return template
+        .replace(/{{date(?::([^}]+))?}}/g, (_match, format: string | undefined) => moment().format(format ?? "YYYY-MM-DD"))
+        .replace(/{{folder}}/g, folder)
+        .replace(/{{preset}}/g, preset)
+        .trim();
+}
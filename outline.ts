@@ -0,0 +1,197 @@
+// Section outline: a sidebar tree of the active note's sections. Nodes jump to their heading,
+// carry the select, copy and extract actions, and can be dragged to move a section in the note.
+
+import { debounce, ItemView, MarkdownView, setIcon, WorkspaceLeaf } from 'obsidian';
+import type SelectSectionPlugin from './main';
+import { moveSectionTo } from './restructure';
+import { buildSectionIndex, SectionRange } from './sections';
+
+export const VIEW_TYPE_OUTLINE = "sectcy-outline";
+
+export class OutlineView extends ItemView {
+    plugin: SelectSectionPlugin;
+    // The note the outline shows; kept while the sidebar itself has focus
+    markdownView: MarkdownView | null = null;
+    // Collapsed nodes by heading path, so they stay collapsed while the note is edited
+    collapsed = new Set<string>();
+    dragStartIndex: number | null = null;
+    scheduleRender = debounce(() => this.render(), 300, true);
+
+    constructor(leaf: WorkspaceLeaf, plugin: SelectSectionPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_OUTLINE;
+    }
+
+    getDisplayText(): string {
+        return "Section outline";
+    }
+
+    getIcon(): string {
+        return "list-tree";
+    }
+
+    async onOpen() {
+        this.registerEvent(this.app.workspace.on("active-leaf-change", (leaf) => {
+            if (leaf?.view instanceof MarkdownView && leaf.view !== this.markdownView) {
+                this.markdownView = leaf.view;
+                this.collapsed.clear();
+                this.render();
+            }
+        }));
+        this.registerEvent(this.app.workspace.on("file-open", () => this.render()));
+        this.registerEvent(this.app.workspace.on("editor-change", (_editor, info) => {
+            if (info === this.markdownView) this.scheduleRender();
+        }));
+        // The followed pane may have been closed
+        this.registerEvent(this.app.workspace.on("layout-change", () => {
+            if (this.markdownView && !this.app.workspace.getLeavesOfType("markdown").some(leaf => leaf.view === this.markdownView)) {
+                this.markdownView = null;
+                this.render();
+            }
+        }));
+
+        this.markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+        this.render();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    render() {
+        const { contentEl } = this;
+        const scrollTop = contentEl.scrollTop;
+        contentEl.empty();
+        contentEl.addClass("sectcy-outline");
+
+        const view = this.markdownView;
+        const file = view?.file;
+        if (!view || !file) {
+            contentEl.createDiv({ cls: "sectcy-outline-empty", text: "Open a note to see its sections." });
+            return;
+        }
+
+        const sections = buildSectionIndex(view.editor);
+        contentEl.createDiv({ cls: "sectcy-outline-title", text: file.basename });
+        if (sections.length === 0) {
+            contentEl.createDiv({ cls: "sectcy-outline-empty", text: "This note has no headings." });
+            return;
+        }
+
+        const keys = sections.map((_, index) => this.pathKey(sections, index));
+        const list = contentEl.createDiv({ cls: "sectcy-outline-list" });
+        sections.forEach((section, index) => {
+            // Hidden when any ancestor is collapsed
+            for (let parent = section.parent; parent !== -1; parent = sections[parent].parent) {
+                if (this.collapsed.has(keys[parent])) return;
+            }
+            this.renderNode(list, view, sections, index, keys[index]);
+        });
+        contentEl.scrollTop = scrollTop;
+    }
+
+    renderNode(list: HTMLElement, view: MarkdownView, sections: SectionRange[], index: number, key: string) {
+        const section = sections[index];
+        const depth = this.depthOf(sections, index);
+        const hasChildren = sections[index + 1]?.parent === index;
+
+        const row = list.createDiv({ cls: "sectcy-outline-item" });
+        row.style.paddingLeft = `${4 + depth * 16}px`;
+        row.draggable = true;
+
+        row.ondragstart = (e) => {
+            this.dragStartIndex = index;
+            e.dataTransfer?.setData("text/plain", index.toString());
+            row.addClass("is-dragging");
+        };
+        row.ondragover = (e) => {
+            e.preventDefault(); // Allow dropping
+            row.addClass("is-drop-target");
+        };
+        row.ondragleave = () => {
+            row.removeClass("is-drop-target");
+        };
+        row.ondrop = (e) => {
+            e.preventDefault();
+            row.removeClass("is-drop-target");
+            const dragIndex = this.dragStartIndex;
+            this.dragStartIndex = null;
+            if (dragIndex === null || dragIndex === index) return;
+            // The note may have changed since the outline was drawn
+            const current = buildSectionIndex(view.editor);
+            const dragged = current.findIndex(s => s.headingLine === sections[dragIndex].headingLine && s.title === sections[dragIndex].title);
+            const target = current.findIndex(s => s.headingLine === section.headingLine && s.title === section.title);
+            if (dragged === -1 || target === -1) return;
+            const edit = moveSectionTo(view.editor, current, dragged, target);
+            if (edit) {
+                this.plugin.applyLineEdit(view.editor, edit);
+                this.render();
+            }
+        };
+        row.ondragend = () => {
+            row.removeClass("is-dragging");
+            this.dragStartIndex = null;
+        };
+
+        const toggle = row.createSpan({ cls: "sectcy-outline-toggle" });
+        if (hasChildren) {
+            setIcon(toggle, this.collapsed.has(key) ? "chevron-right" : "chevron-down");
+            toggle.onclick = (e) => {
+                e.stopPropagation();
+                if (!this.collapsed.delete(key)) this.collapsed.add(key);
+                this.render();
+            };
+        }
+
+        row.createSpan({ cls: "sectcy-outline-level", text: `H${section.level}` });
+        row.createSpan({ cls: "sectcy-outline-heading", text: section.title });
+        row.onclick = () => this.jumpTo(view, section.headingLine);
+
+        const actions = row.createSpan({ cls: "sectcy-outline-actions" });
+        const addAction = (icon: string, label: string, action: () => void) => {
+            const btn = actions.createSpan({ cls: "clickable-icon" });
+            setIcon(btn, icon);
+            btn.ariaLabel = label;
+            btn.onclick = (e) => {
+                e.stopPropagation();
+                action();
+            };
+        };
+        addAction("mouse-pointer-click", "Select Section", () => {
+            this.focus(view);
+            this.plugin.selectOrCopySection(view.editor, section.headingLine, true);
+        });
+        addAction("copy", "Copy Section", () => {
+            this.plugin.selectOrCopySection(view.editor, section.headingLine, false, true);
+        });
+        addAction("file-output", "Extract Section", () => {
+            if (view.file) this.plugin.extractSection(view.editor, section.headingLine, view.file);
+        });
+    }
+
+    jumpTo(view: MarkdownView, line: number) {
+        this.focus(view);
+        view.editor.setCursor({ line, ch: 0 });
+        view.editor.scrollIntoView({ from: { line, ch: 0 }, to: { line, ch: 0 } }, true);
+    }
+
+    focus(view: MarkdownView) {
+        this.app.workspace.setActiveLeaf(view.leaf, { focus: true });
+    }
+
+    depthOf(sections: SectionRange[], index: number): number {
+        let depth = 0;
+        for (let parent = sections[index].parent; parent !== -1; parent = sections[parent].parent) depth++;
+        return depth;
+    }
+
+    pathKey(sections: SectionRange[], index: number): string {
+        const titles: string[] = [];
+        for (let i = index; i !== -1; i = sections[i].parent) titles.unshift(sections[i].title);
+        return titles.join("\n");
+    }
+}
@@ -0,0 +1,43 @@
+import { LineEdit, moveSectionTo } from './restructure';
+import { buildSectionIndex, linesOf } from './sections';
+
+// Moves the section with the first heading onto the section with the second and returns the note
+function move(lines: string[], heading: string, onto: string): string[] | null {
+    const source = linesOf(lines.join("\n"));
+    const sections = buildSectionIndex(source);
+    const index = sections.findIndex(section => section.title === heading);
+    const target = sections.findIndex(section => section.title === onto);
+    const edit: LineEdit | null = moveSectionTo(source, sections, index, target);
+    if (!edit) return null;
+    return [...lines.slice(0, edit.fromLine), ...edit.text.split("\n"), ...lines.slice(edit.toLine + 1)];
+}
+
+describe("moveSectionTo", () => {
+    test("moves a section in front of a sibling when dragged up", () => {
+        expect(move(["# A", "a", "# B", "b", "# C", "c"], "C", "A"))
+            .toEqual(["# C", "c", "# A", "a", "# B", "b"]);
+    });
+
+    test("moves a section after a sibling's subsections when dragged down", () => {
+        expect(move(["# A", "a", "# B", "## B1", "# C"], "A", "B"))
+            .toEqual(["# B", "## B1", "# A", "a", "# C"]);
+    });
+
+    test("takes the level of a deeper section it is dropped on, subsections included", () => {
+        expect(move(["## X", "### x1", "## Y", "### a", "### b", "### c"], "X", "b"))
+            .toEqual(["## Y", "### a", "### b", "### X", "#### x1", "### c"]);
+    });
+
+    test("takes the level of a higher section it is dropped on", () => {
+        expect(move(["# A", "## a1", "## a2", "# B"], "a1", "B"))
+            .toEqual(["# A", "## a2", "# B", "# a1"]);
+    });
+
+    test("refuses moves that would push a heading past H6", () => {
+        expect(move(["# X", "###### deep", "# Y", "## a"], "X", "a")).toBeNull();
+    });
+
+    test("refuses to move a section into its own subtree", () => {
+        expect(move(["# A", "## a1"], "A", "a1")).toBeNull();
+    });
+});
@@ -0,0 +1,163 @@
+// Line-based edits that move sections or change their heading levels.
+// Each function returns a single replacement so the caller can apply it as one undoable change.
+
+import { LineSource, SectionRange, siblingOf, subtreeOf } from './sections';
+
+export interface LineEdit {
+    fromLine: number;
+    toLine: number; // Inclusive
+    text: string;
+    cursorLine: number; // Where the moved or changed heading ends up
+}
+
+function getLines(source: LineSource, from: number, to: number): string[] {
+    const lines: string[] = [];
+    for (let i = from; i <= to; i++) {
+        lines.push(source.getLine(i));
+    }
+    return lines;
+}
+
+// Splits trailing blank lines off a block so spacing survives a swap
+function splitTrailingBlanks(lines: string[]): { body: string[], blanks: string[] } {
+    let cut = lines.length;
+    while (cut > 1 && lines[cut - 1].trim().length === 0) cut--;
+    return { body: lines.slice(0, cut), blanks: lines.slice(cut) };
+}
+
+// Swaps a section, subtree included, with its previous or next sibling
+export function moveSection(source: LineSource, sections: SectionRange[], index: number, direction: -1 | 1): LineEdit | null {
+    const sibling = siblingOf(sections, index, direction);
+    if (sibling === -1) return null;
+
+    const first = sections[Math.min(index, sibling)];
+    const second = sections[Math.max(index, sibling)];
+
+    const upper = splitTrailingBlanks(getLines(source, first.headingLine, first.end));
+    const lower = splitTrailingBlanks(getLines(source, second.headingLine, second.end));
+
+    // The upper block's spacing stays between the two, the lower block's stays at the end
+    const lines = [...lower.body, ...upper.blanks, ...upper.body, ...lower.blanks];
+    const movedUp = direction === -1;
+
+    return {
+        fromLine: first.headingLine,
+        toLine: second.end,
+        text: lines.join("\n"),
+        cursorLine: movedUp ? first.headingLine : first.headingLine + lower.body.length + upper.blanks.length
+    };
+}
+
+// Moves a section, subtree included, next to another section: in front of it when moving up,
+// after its subtree when moving down. The moved headings shift to the other section's level so
+// the two end up siblings; returns null when that would take a heading past H1-H6.
+export function moveSectionTo(source: LineSource, sections: SectionRange[], index: number, target: number): LineEdit | null {
+    const section = sections[index];
+    const other = sections[target];
+    if (index === target || (other.headingLine >= section.headingLine && other.headingLine <= section.end)) return null;
+
+    const subtree = subtreeOf(sections, index);
+    const delta = other.level - section.level;
+    if (subtree.some(s => s.level + delta < 1 || s.level + delta > 6)) return null;
+    const moved = relevelHeadings(source, subtree, section.headingLine, section.end, delta);
+
+    const movedUp = other.headingLine < section.headingLine;
+    const first = movedUp ? other.headingLine : section.headingLine;
+    const last = movedUp ? section.end : other.end;
+
+    const upper = splitTrailingBlanks(movedUp ? getLines(source, first, section.headingLine - 1) : moved);
+    const lower = splitTrailingBlanks(movedUp ? moved : getLines(source, section.end + 1, last));
+    const lines = [...lower.body, ...upper.blanks, ...upper.body, ...lower.blanks];
+
+    return {
+        fromLine: first,
+        toLine: last,
+        text: lines.join("\n"),
+        cursorLine: movedUp ? first : first + lower.body.length + upper.blanks.length
+    };
+}
+
+// Rewrites a heading line (or a setext heading's lines) for a new level
+function relevelHeading(source: LineSource, section: SectionRange, level: number): string[] {
+    if (!section.setext) {
+        return [source.getLine(section.headingLine).replace(/^( {0,3})#{1,6}/, `$1${"#".repeat(level)}`)];
+    }
+    if (level <= 2) {
+        // Setext headings keep their style, only the underline character changes
+        const underline = source.getLine(section.headingEnd);
+        return [
+            ...getLines(source, section.headingLine, section.headingEnd - 1),
+            underline.replace(/[=-]/g, level === 1 ? "=" : "-")
+        ];
+    }
+    return [`${"#".repeat(level)} ${section.title}`];
+}
+
+// Lines from..to with the given headings shifted by delta, clamped to H1-H6
+function relevelHeadings(source: LineSource, headings: SectionRange[], from: number, to: number, delta: number): string[] {
+    const lines: string[] = [];
+    let line = from;
+    for (const section of headings) {
+        lines.push(...getLines(source, line, section.headingLine - 1));
+        lines.push(...relevelHeading(source, section, Math.min(6, Math.max(1, section.level + delta))));
+        line = section.headingEnd + 1;
+    }
+    lines.push(...getLines(source, line, to));
+    return lines;
+}
+
+// Changes the level of a heading and all of its child headings by the same amount
+export function shiftSectionLevels(source: LineSource, sections: SectionRange[], index: number, delta: number): LineEdit | null {
+    const subtree = subtreeOf(sections, index);
+    const root = subtree[0];
+    if (subtree.some(section => section.level + delta < 1 || section.level + delta > 6)) return null;
+
+    const lines = relevelHeadings(source, subtree, root.headingLine, root.end, delta);
+
+    return {
+        fromLine: root.headingLine,
+        toLine: root.end,
+        text: lines.join("\n"),
+        cursorLine: root.headingLine
+    };
+}
+
+// Shifts every heading in the text, used to nest whole notes under a new heading
+export function shiftAllHeadings(source: LineSource, sections: SectionRange[], delta: number): string {
+    return relevelHeadings(source, sections, 0, source.lineCount() - 1, delta).join("\n");
+}
+
+export interface NotePiece {
+    title: string;
+    content: string;
+}
+
+// Splits a note at every heading of the given level or higher.
+// Joining the pieces with blank lines gives back the original note when headings are kept.
+export function splitByHeading(source: LineSource, sections: SectionRange[], level: number, keepHeadings: boolean, preambleTitle: string): NotePiece[] {
+    const splits = sections.filter(section => section.level <= level);
+    const trim = (lines: string[]) => lines.join("\n").replace(/^\s*\n/, "").trimEnd();
+    const pieces: NotePiece[] = [];
+
+    const firstSplit = splits.length > 0 ? splits[0].headingLine : source.lineCount();
+    let preamble = getLines(source, 0, firstSplit - 1).join("\n").trimEnd();
+    const frontmatter = preamble.match(/^---\n[\s\S]*?\n(---|\.\.\.)(\n|$)/);
+    if (preamble.length > 0 && (!frontmatter || preamble.slice(frontmatter[0].length).trim().length > 0)) {
+        pieces.push({ title: preambleTitle, content: preamble });
+        preamble = "";
+    }
+
+    splits.forEach((section, index) => {
+        const end = index + 1 < splits.length ? splits[index + 1].headingLine - 1 : source.lineCount() - 1;
+        const start = keepHeadings ? section.headingLine : section.bodyStart;
+        let content = trim(getLines(source, start, end));
+        // A note holding only frontmatter before the first heading travels with the first piece
+        if (preamble.length > 0) {
+            content = `${preamble}\n${content}`;
+            preamble = "";
+        }
+        pieces.push({ title: section.title, content });
+    });
+
+    return pieces;
+}
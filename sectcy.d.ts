@@ -0,0 +1,64 @@
+// Public API of the Sectcy plugin. Copy this file into your plugin or script project to get
+// type checking, then look the API up at runtime:
+//
+//     const sectcy = (app as any).plugins.getPlugin("sectcy")?.api as SectcyApi | undefined;
+//
+// Events are triggered on app.workspace, e.g. app.workspace.on("sectcy:merge-complete", ...).
+// SectcyEvents lists their names and payloads.
+
+import type { TFile } from "obsidian";
+
+export interface SectcySection {
+    heading: string;
+    level: number;
+    path: string[]; // Headings from the top-level ancestor down to this section
+    headingLine: number; // 0-based line of the heading (the first title line for setext headings)
+    bodyStart: number; // 0-based first line after the heading
+    end: number; // 0-based last line of the section, inclusive, subsections included
+}
+
+// A heading path is either "Parent#Child" or ["Parent", "Child"]. Like in links, the headings
+// only need to appear in that order among the section's ancestors, so "Child" alone finds the
+// first section with that heading. Matching ignores case and block ids.
+export type SectcyHeadingPath = string | string[];
+
+export interface SectcySectionOptions {
+    includeHeading?: boolean; // Defaults to true
+}
+
+export interface SectcyMergeFormat {
+    insertTitles: boolean;
+    titleLevel: number;
+    demoteHeadings: number;
+    frontmatter: "keep" | "strip" | "combine";
+    frontmatterConflict: "first" | "last" | "list";
+    separator: string;
+    expandEmbeds: boolean;
+}
+
+export interface SectcyMergeOptions {
+    outputFolder?: string; // Defaults to the folder of the first file
+    outputName?: string; // Without extension, defaults to "Merged notes"
+    overwrite?: boolean; // Replace an existing note of that name instead of numbering the output
+    live?: boolean; // Rebuild the output whenever a source note changes
+    format?: Partial<SectcyMergeFormat>; // Missing fields come from the user's merge settings
+    afterMerge?: "keep" | "archive" | "trash"; // Defaults to the user's setting
+    // Group the sections with the same heading at this level across the notes, in the given order
+    byHeading?: { level: number, order: string[] };
+}
+
+export interface SectcyApi {
+    getSections(file: TFile): Promise<SectcySection[]>;
+    getSection(file: TFile, headingPath: SectcyHeadingPath): Promise<SectcySection | null>;
+    // Null when the note has no such section
+    readSection(file: TFile, headingPath: SectcyHeadingPath, options?: SectcySectionOptions): Promise<string | null>;
+    // Replaces the section's content, or the heading too with includeHeading. False when not found.
+    replaceSection(file: TFile, headingPath: SectcyHeadingPath, content: string, options?: SectcySectionOptions): Promise<boolean>;
+    // Resolves to the merged note, or null when the merge failed or files is empty (nothing is created)
+    mergeFiles(files: TFile[], options?: SectcyMergeOptions): Promise<TFile | null>;
+}
+
+export interface SectcyEvents {
+    "sectcy:section-copied": (data: { text: string, format: "markdown" | "html" | "rich" | "plain", sourcePath: string }) => void;
+    "sectcy:merge-complete": (data: { output: TFile, sources: TFile[], live: boolean }) => void;
+}
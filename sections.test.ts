@@ -0,0 +1,170 @@
+import { buildSectionIndex, findSectionByPath, headingPath, linesOf, SectionRange, sectionsInRanges } from './sections';
+
+function index(...lines: string[]): SectionRange[] {
+    return buildSectionIndex(linesOf(lines.join("\n")));
+}
+
+function titles(sections: SectionRange[]): string[] {
+    return sections.map(section => section.title);
+}
+
+describe("buildSectionIndex", () => {
+    test("finds ATX headings with their levels", () => {
+        const sections = index("# One", "text", "## Two ##", "###### Six", "#NoSpace", "    # indented code");
+        expect(titles(sections)).toEqual(["One", "Two", "Six"]);
+        expect(sections.map(section => section.level)).toEqual([1, 2, 6]);
+    });
+
+    test("ignores headings inside fenced code", () => {
+        const sections = index(
+            "# Script",
+            "```bash",
+            "# a comment",
+            "```",
+            "~~~~",
+            "## still code",
+            "```",
+            "~~~~",
+            "## After"
+        );
+        expect(titles(sections)).toEqual(["Script", "After"]);
+    });
+
+    test("a fence inside a callout ends with the callout", () => {
+        const sections = index("> [!note]", "> ```", "> # code", "", "# Real");
+        expect(titles(sections)).toEqual(["Real"]);
+    });
+
+    test("ignores headings inside indented code", () => {
+        const sections = index("# Top", "", "    # not a heading", "    ## nor this", "", "## Sub");
+        expect(titles(sections)).toEqual(["Top", "Sub"]);
+    });
+
+    test("indentation that continues a list item is not code", () => {
+        const sections = index("- item", "    continued", "# Heading");
+        expect(titles(sections)).toEqual(["Heading"]);
+    });
+
+    test("skips frontmatter", () => {
+        const sections = index("---", "# title: not a heading", "tags: [a]", "---", "# Body");
+        expect(titles(sections)).toEqual(["Body"]);
+        expect(sections[0].headingLine).toBe(4);
+    });
+
+    test("ignores headings inside %% comments %%", () => {
+        const sections = index("%%", "# hidden", "%%", "# Shown", "%% one line %%", "%% opens", "## hidden too", "closes %%", "## Also shown");
+        expect(titles(sections)).toEqual(["Shown", "Also shown"]);
+    });
+
+    test("ignores headings inside callouts and quotes", () => {
+        const sections = index("> [!tip] Title", "> # quoted", ">> ## nested", "", "# Outside");
+        expect(titles(sections)).toEqual(["Outside"]);
+    });
+
+    test("finds setext headings", () => {
+        const sections = index("Title", "spans lines", "===", "", "Sub", "---", "text");
+        expect(titles(sections)).toEqual(["Title spans lines", "Sub"]);
+        expect(sections[0]).toMatchObject({ headingLine: 0, headingEnd: 2, bodyStart: 3, level: 1, setext: true });
+        expect(sections[1]).toMatchObject({ headingLine: 4, headingEnd: 5, bodyStart: 6, level: 2, setext: true });
+    });
+
+    test("a dash line after a blank line or a list is a thematic break", () => {
+        const sections = index("# Top", "", "---", "- item", "---");
+        expect(titles(sections)).toEqual(["Top"]);
+    });
+
+    test("sections end before the next heading of the same or a higher level", () => {
+        const sections = index(
+            "# A",     // 0
+            "text",    // 1
+            "## B",    // 2
+            "### C",   // 3
+            "text",    // 4
+            "## D",    // 5
+            "# E",     // 6
+            "text"     // 7
+        );
+        expect(sections.map(section => [section.title, section.headingLine, section.bodyStart, section.end])).toEqual([
+            ["A", 0, 1, 5],
+            ["B", 2, 3, 4],
+            ["C", 3, 4, 4],
+            ["D", 5, 6, 5],
+            ["E", 6, 7, 7]
+        ]);
+    });
+
+    test("parents point at the enclosing section, skipped levels included", () => {
+        const sections = index("# A", "### B", "## C", "#### D", "# E");
+        expect(sections.map(section => section.parent)).toEqual([-1, 0, 0, 2, -1]);
+    });
+
+    test("returns nothing for a note without headings", () => {
+        expect(index("just", "text")).toEqual([]);
+        expect(index("")).toEqual([]);
+    });
+});
+
+describe("findSectionByPath", () => {
+    const sections = index("# Week 1", "## Notes", "# Week 2", "## Notes ^w2", "### Detail");
+
+    test("a single heading finds its first occurrence", () => {
+        expect(findSectionByPath(sections, ["Notes"])).toBe(1);
+    });
+
+    test("ancestors pick out a later occurrence, ignoring case and block ids", () => {
+        expect(findSectionByPath(sections, ["week 2", "notes"])).toBe(3);
+        expect(findSectionByPath(sections, ["", "Week 2", "Detail"])).toBe(4);
+    });
+
+    test("returns -1 when nothing matches", () => {
+        expect(findSectionByPath(sections, ["Week 1", "Detail"])).toBe(-1);
+        expect(findSectionByPath(sections, [])).toBe(-1);
+    });
+});
+
+describe("headingPath", () => {
+    test("a unique heading is named by its own title", () => {
+        expect(headingPath(index("# A", "## B", "# C"), 1)).toEqual(["B"]);
+    });
+
+    test("a shared heading is named through its ancestors", () => {
+        const sections = index("# Week 1", "## Notes", "# Week 2", "## Notes");
+        expect(headingPath(sections, 1)).toEqual(["Week 1", "Notes"]);
+        expect(headingPath(sections, 3)).toEqual(["Week 2", "Notes"]);
+    });
+
+    test("same-named siblings after the first have no path", () => {
+        const sections = index("# Log", "## Entry", "## Entry", "# Log", "## Entry");
+        expect(headingPath(sections, 1)).toEqual(["Log", "Entry"]);
+        expect(headingPath(sections, 2)).toBeNull();
+        expect(headingPath(sections, 4)).toBeNull();
+    });
+});
+
+describe("sectionsInRanges", () => {
+    // Lines:             0      1      2       3      4       5      6
+    const sections = index("# A", "text", "## B", "text", "## C", "text", "# D");
+
+    test("picks a section covered from its heading to its end", () => {
+        expect(titles(sectionsInRanges(sections, [{ from: 2, to: 3 }]))).toEqual(["B"]);
+    });
+
+    test("ignores sections covered only in part", () => {
+        expect(sectionsInRanges(sections, [{ from: 3, to: 4 }])).toEqual([]);
+        expect(sectionsInRanges(sections, [{ from: 1, to: 1 }])).toEqual([]);
+    });
+
+    test("picks every covered sibling, and the parent only when its heading is covered", () => {
+        expect(titles(sectionsInRanges(sections, [{ from: 1, to: 5 }]))).toEqual(["B", "C"]);
+        expect(titles(sectionsInRanges(sections, [{ from: 0, to: 5 }]))).toEqual(["A"]);
+    });
+
+    test("leaves out sections inside another picked section", () => {
+        expect(titles(sectionsInRanges(sections, [{ from: 2, to: 3 }, { from: 0, to: 6 }]))).toEqual(["A", "D"]);
+    });
+
+    test("body-only selections start after the heading", () => {
+        expect(titles(sectionsInRanges(sections, [{ from: 3, to: 3 }], true))).toEqual(["B"]);
+        expect(sectionsInRanges(sections, [{ from: 3, to: 3 }])).toEqual([]);
+    });
+});
@@ -0,0 +1,323 @@
+// Markdown-aware section index behind the section actions, commands and note splitting.
+// Nothing in here touches the Obsidian API, so it works on any line source.
+
+export interface LineSource {
+    lineCount(): number;
+    getLine(line: number): string;
+}
+
+export interface SectionRange {
+    headingLine: number; // First line of the heading (paragraph start for setext headings)
+    headingEnd: number; // Last line of the heading (the underline for setext headings)
+    bodyStart: number;
+    end: number; // Last line of the section, inclusive
+    level: number;
+    parent: number; // Index of the parent section, -1 for top level sections
+    title: string;
+    setext: boolean;
+}
+
+const ATX_HEADING = /^ {0,3}(#{1,6})[ \t]+(.*)$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const FENCE_CLOSE = /^ {0,3}(`{3,}|~{3,})[ \t]*$/;
+const LIST_ITEM = /^ {0,3}([-*+]|\d{1,9}[.)])([ \t]|$)/;
+const INDENTED = /^( {4}|\t)/;
+const QUOTE_PREFIX = /^ {0,3}> ?/;
+
+interface OpenFence {
+    char: string;
+    length: number;
+    quoteDepth: number;
+}
+
+export function linesOf(text: string): LineSource {
+    const lines = text.split("\n");
+    return {
+        lineCount: () => lines.length,
+        getLine: (line: number) => lines[line]
+    };
+}
+
+// Splits blockquote / callout markers off a line and returns how deep it is nested
+function stripQuotes(line: string): { depth: number, content: string } {
+    let depth = 0;
+    let content = line;
+    let match = content.match(QUOTE_PREFIX);
+    while (match) {
+        depth++;
+        content = content.slice(match[0].length);
+        match = content.match(QUOTE_PREFIX);
+    }
+    return { depth, content };
+}
+
+function frontmatterEnd(source: LineSource): number {
+    if (source.lineCount() === 0 || source.getLine(0).trimEnd() !== "---") return -1;
+    for (let i = 1; i < source.lineCount(); i++) {
+        const line = source.getLine(i).trimEnd();
+        if (line === "---" || line === "...") return i;
+    }
+    return -1;
+}
+
+function atxTitle(raw: string): string {
+    // Drop an optional closing sequence of hashes ("## Title ##")
+    return raw.replace(/(^|[ \t]+)#+[ \t]*$/, "").trim();
+}
+
+export function buildSectionIndex(source: LineSource): SectionRange[] {
+    return scanSections(source, null);
+}
+
+// Lines inside fenced or indented code blocks, fence lines included
+export function codeLines(source: LineSource): Set<number> {
+    const code = new Set<number>();
+    scanSections(source, code);
+    return code;
+}
+
+// Finds the headings, adding the lines of code blocks to code when given
+function scanSections(source: LineSource, code: Set<number> | null): SectionRange[] {
+    const sections: SectionRange[] = [];
+    const lineCount = source.lineCount();
+
+    let fence: OpenFence | null = null;
+    let inComment = false;
+    let inIndentedCode = false;
+    let inList = false;
+    let prevBlank = true;
+    let paragraphStart = -1;
+
+    const addHeading = (headingLine: number, headingEnd: number, level: number, title: string, setext: boolean) => {
+        sections.push({
+            headingLine,
+            headingEnd,
+            bodyStart: headingEnd + 1,
+            end: lineCount - 1,
+            level,
+            parent: -1,
+            title,
+            setext
+        });
+    };
+
+    for (let i = frontmatterEnd(source) + 1; i < lineCount; i++) {
+        const line = source.getLine(i);
+        const { depth, content } = stripQuotes(line);
+
+        // Inside a fenced code block: only look for the closing fence
+        if (fence) {
+            const close = content.match(FENCE_CLOSE);
+            if (depth < fence.quoteDepth) {
+                // The callout / quote holding the fence ended, so did the fence
+                fence = null;
+            } else {
+                code?.add(i);
+                if (close && close[1][0] === fence.char && close[1].length >= fence.length) {
+                    fence = null;
+                }
+                prevBlank = false;
+                continue;
+            }
+        }
+
+        const commentMarkers = (line.match(/%%/g) || []).length;
+        if (inComment) {
+            if (commentMarkers % 2 === 1) inComment = false;
+            paragraphStart = -1;
+            prevBlank = false;
+            continue;
+        }
+        const opensComment = commentMarkers % 2 === 1;
+
+        if (line.trim().length === 0) {
+            paragraphStart = -1;
+            prevBlank = true;
+            continue;
+        }
+
+        // Indented code, unless the indentation continues a list item
+        if (depth === 0 && INDENTED.test(line) && paragraphStart === -1 && !inList && (prevBlank || inIndentedCode)) {
+            inIndentedCode = true;
+            prevBlank = false;
+            code?.add(i);
+            continue;
+        }
+        inIndentedCode = false;
+
+        const wasBlank = prevBlank;
+        prevBlank = false;
+
+        const fenceOpen = content.match(FENCE_OPEN);
+        if (fenceOpen && !(fenceOpen[1][0] === "`" && fenceOpen[2].includes("`"))) {
+            fence = { char: fenceOpen[1][0], length: fenceOpen[1].length, quoteDepth: depth };
+            paragraphStart = -1;
+            code?.add(i);
+            continue;
+        }
+
+        if (line.trimStart().startsWith("%%")) {
+            inComment = opensComment;
+            paragraphStart = -1;
+            continue;
+        }
+
+        // Blockquotes and callouts never contribute section headings
+        if (depth > 0) {
+            paragraphStart = -1;
+            inComment = opensComment;
+            continue;
+        }
+
+        if (inList && INDENTED.test(line)) {
+            inComment = opensComment;
+            continue;
+        }
+
+        const atx = line.match(ATX_HEADING);
+        if (atx) {
+            addHeading(i, i, atx[1].length, atxTitle(atx[2]), false);
+            paragraphStart = -1;
+            inList = false;
+            inComment = opensComment;
+            continue;
+        }
+
+        const underline = line.match(SETEXT_UNDERLINE);
+        if (underline && paragraphStart !== -1) {
+            const title = [];
+            for (let j = paragraphStart; j < i; j++) {
+                title.push(source.getLine(j).trim());
+            }
+            addHeading(paragraphStart, i, underline[1][0] === "=" ? 1 : 2, title.join(" "), true);
+            paragraphStart = -1;
+            continue;
+        }
+
+        if (underline) {
+            // A thematic break, which also ends any open list
+            inList = false;
+            paragraphStart = -1;
+            inComment = opensComment;
+            continue;
+        }
+
+        if (LIST_ITEM.test(line)) {
+            inList = true;
+            paragraphStart = -1;
+            inComment = opensComment;
+            continue;
+        }
+
+        if (inList && !wasBlank) {
+            // Lazy continuation of a list item paragraph
+            inComment = opensComment;
+            continue;
+        }
+
+        inList = false;
+        if (paragraphStart === -1) {
+            paragraphStart = i;
+        }
+        inComment = opensComment;
+    }
+
+    // Close sections at the next heading of the same or a higher level
+    const stack: number[] = [];
+    sections.forEach((section, index) => {
+        while (stack.length > 0 && sections[stack[stack.length - 1]].level >= section.level) {
+            sections[stack.pop()].end = section.headingLine - 1;
+        }
+        section.parent = stack.length > 0 ? stack[stack.length - 1] : -1;
+        stack.push(index);
+    });
+
+    return sections;
+}
+
+// Returns the section whose heading occupies the given line
+export function findSectionByHeading(sections: SectionRange[], line: number): SectionRange | null {
+    for (const section of sections) {
+        if (line >= section.headingLine && line <= section.headingEnd) return section;
+    }
+    return null;
+}
+
+// Returns the innermost section containing the given line
+export function findSectionAt(sections: SectionRange[], line: number): SectionRange | null {
+    let found: SectionRange | null = null;
+    for (const section of sections) {
+        if (section.headingLine > line) break;
+        if (section.end >= line) found = section;
+    }
+    return found;
+}
+
+// Headings naming a section in a link: its own title when no other section shares it,
+// otherwise the titles of all of its ancestors down to the section itself. Returns null when
+// even the full path leads to an earlier section, as with same-named siblings.
+export function headingPath(sections: SectionRange[], index: number): string[] | null {
+    // A block id after the title is not part of the heading's name
+    const name = (section: SectionRange) => section.title.replace(/\s\^[\w-]+$/, "").toLowerCase();
+    if (!sections.some((section, i) => i !== index && name(section) === name(sections[index]))) {
+        return [sections[index].title];
+    }
+    const path: string[] = [];
+    for (let i = index; i !== -1; i = sections[i].parent) {
+        path.unshift(sections[i].title);
+    }
+    return findSectionByPath(sections, path) === index ? path : null;
+}
+
+// Index of the first section a heading path names, as in "Note#Parent#Child" links: the last
+// heading is the section's own, earlier ones must appear in that order among its ancestors.
+// Matching ignores case and block ids. Returns -1 when nothing matches.
+export function findSectionByPath(sections: SectionRange[], path: string[]): number {
+    const name = (title: string) => title.replace(/\s\^[\w-]+$/, "").trim().toLowerCase();
+    const wanted = path.map(name).filter(part => part.length > 0);
+    if (wanted.length === 0) return -1;
+
+    return sections.findIndex(section => {
+        if (name(section.title) !== wanted[wanted.length - 1]) return false;
+        let next = wanted.length - 2;
+        for (let i = section.parent; i !== -1 && next >= 0; i = sections[i].parent) {
+            if (name(sections[i].title) === wanted[next]) next--;
+        }
+        return next < 0;
+    });
+}
+
+// Sections picked out by selection ranges (line numbers): every section a range covers from its
+// heading line to its end, or from its first body line with bodyOnly, as selections made without
+// headers do. Sections inside another picked section are left out.
+export function sectionsInRanges(sections: SectionRange[], ranges: { from: number, to: number }[], bodyOnly = false): SectionRange[] {
+    const covered = (section: SectionRange) => ranges.some(range =>
+        range.from <= (bodyOnly ? section.bodyStart : section.headingLine) && range.to >= section.end);
+    const picked = sections.filter(covered);
+    return picked.filter(section => section.parent === -1 || !covered(sections[section.parent]));
+}
+
+// Returns the section followed by all of its descendants, in document order
+export function subtreeOf(sections: SectionRange[], index: number): SectionRange[] {
+    const root = sections[index];
+    const subtree = [root];
+    for (let i = index + 1; i < sections.length && sections[i].headingLine <= root.end; i++) {
+        subtree.push(sections[i]);
+    }
+    return subtree;
+}
+
+// Index of the neighbouring section with the same parent, or -1
+export function siblingOf(sections: SectionRange[], index: number, direction: -1 | 1): number {
+    const section = sections[index];
+    if (direction === 1) {
+        let next = index + 1;
+        while (next < sections.length && sections[next].headingLine <= section.end) next++;
+        return next < sections.length && sections[next].parent === section.parent ? next : -1;
+    }
+    for (let i = index - 1; i > section.parent; i--) {
+        if (sections[i].parent === section.parent) return i;
+    }
+    return -1;
+}
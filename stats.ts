@@ -0,0 +1,56 @@
+// Word, character and task counts for a section, shown in the header badges.
+
+import { stripMarkdown } from './formats';
+import { LineSource, SectionRange } from './sections';
+
+export interface SectionStats {
+    words: number;
+    characters: number;
+    tasksDone: number;
+    tasksTotal: number;
+}
+
+const TASK = /^\s*(?:>\s*)*(?:[-*+]|\d{1,9}[.)])\s+\[(.)\]/;
+const FENCE = /^\s*(```|~~~)/;
+// CJK characters count as one word each, everything else is split on whitespace.
+// Tokens without letters or digits, such as list bullets, are not words.
+const WORD = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]|[^\s\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]+/g;
+const WORDLIKE = /[A-Za-z0-9\u00c0-\uffff]/;
+
+// Counts the body of a section, with or without its subsections. The heading itself is not counted.
+export function sectionStats(source: LineSource, sections: SectionRange[], index: number, includeChildren: boolean): SectionStats {
+    const section = sections[index];
+    let end = section.end;
+    if (!includeChildren) {
+        const child = sections[index + 1];
+        if (child && child.parent === index) end = child.headingLine - 1;
+    }
+
+    const lines: string[] = [];
+    let tasksDone = 0;
+    let tasksTotal = 0;
+    let inFence = false;
+    for (let i = section.bodyStart; i <= end; i++) {
+        const line = source.getLine(i);
+        lines.push(line);
+        if (FENCE.test(line)) inFence = !inFence;
+        if (inFence) continue;
+        const task = line.match(TASK);
+        if (task) {
+            tasksTotal++;
+            if (task[1] === "x" || task[1] === "X") tasksDone++;
+        }
+    }
+
+    const text = stripMarkdown(lines.join("\n"));
+    return {
+        words: (text.match(WORD) || []).filter(token => WORDLIKE.test(token)).length,
+        characters: text.replace(/\n/g, "").length,
+        tasksDone,
+        tasksTotal
+    };
+}
+
+export function readingMinutes(words: number, wordsPerMinute: number): number {
+    return words === 0 ? 0 : Math.max(1, Math.round(words / Math.max(1, wordsPerMinute)));
+}